@@ -1,4 +1,5 @@
-import { s, ValidationError } from '../index';
+import { s, ValidationError, InferType, createModelFromSchema } from '../index';
+import { toJsonSchema, fromJsonSchema } from '../plugins/json-schema';
 
 describe('Advanced Schema Validation', () => {
   describe('Schémas composés', () => {
@@ -291,6 +292,32 @@ describe('Advanced Schema Validation', () => {
         expect(error.issues[0].path).toContain('name');
       }
     });
+
+    it('distingue les index de tableau des clés numériques', () => {
+      const schema = s.object({
+        items: s.array(s.number()),
+        labels: s.record(s.string(), s.string()),
+        page: s.paginated(s.string()),
+      });
+
+      const result = schema.safeParse({
+        items: [1, 'two'],
+        labels: { '0': 42 },
+        page: { items: ['a', 1], total: 2, page: 1, pageSize: 2, pageCount: 1 },
+      });
+
+      expect(result.isErr()).toBe(true);
+
+      const error = result.unwrapErr();
+      expect(error.issues.map(issue => issue.path)).toEqual([
+        ['items', 1],
+        ['labels', '0'],
+        ['page', 'items', 1],
+      ]);
+      expect(error.getIssuesAtPath('items.1')).toHaveLength(1);
+      expect(error.getIssuesAtPath(['items', 1])).toHaveLength(1);
+      expect(error.getIssuesAtPath(['items', '1'])).toHaveLength(0);
+    });
   });
 
   describe('Valeurs par défaut', () => {
@@ -314,4 +341,341 @@ describe('Advanced Schema Validation', () => {
       });
     });
   });
-});
\ No newline at end of file
+});
+describe('Validation croisée avec superRefine', () => {
+  const PeriodSchema = s.object({
+    password: s.string(),
+    confirmPassword: s.string(),
+    period: s.object({ start: s.number(), end: s.number() }),
+  }).superRefine((value, ctx) => {
+    if (value.confirmPassword !== value.password) {
+      ctx.addIssue({ path: ['confirmPassword'], message: 'Passwords do not match' });
+    }
+
+    if (value.period.end <= value.period.start) {
+      ctx.addIssue({
+        path: ['period', 'end'],
+        code: 'period.order',
+        message: 'End must be after {start}',
+        params: { start: value.period.start },
+      });
+    }
+  });
+
+  it('signale plusieurs problèmes sur des chemins imbriqués', () => {
+    const issues = PeriodSchema.safeParse({
+      password: 'secret',
+      confirmPassword: 'other',
+      period: { start: 10, end: 5 },
+    }).unwrapErr().issues;
+
+    expect(issues).toEqual([
+      { path: ['confirmPassword'], message: 'Passwords do not match', code: 'custom', params: undefined },
+      { path: ['period', 'end'], message: 'End must be after 10', code: 'period.order', params: { start: 10 } },
+    ]);
+
+    expect(PeriodSchema.safeParse({
+      password: 'secret',
+      confirmPassword: 'secret',
+      period: { start: 1, end: 5 },
+    }).isOk()).toBe(true);
+  });
+
+  it('préfixe les chemins par celui de la valeur raffinée', () => {
+    const schema = s.object({ account: PeriodSchema });
+    const result = schema.safeParse({
+      account: { password: 'a', confirmPassword: 'b', period: { start: 0, end: 1 } },
+    });
+
+    expect(result.unwrapErr().issues[0].path).toEqual(['account', 'confirmPassword']);
+  });
+
+  it('arrête les raffinements suivants après un problème fatal', () => {
+    const second = jest.fn();
+    const schema = s.number()
+      .superRefine((value, ctx) => {
+        if (value < 0) {
+          ctx.addIssue({ message: 'Negative', fatal: true });
+          ctx.addIssue({ message: 'Ignored' });
+        }
+      })
+      .superRefine(second);
+
+    expect(schema.safeParse(-1).unwrapErr().issues.map(issue => issue.message)).toEqual(['Negative']);
+    expect(second).not.toHaveBeenCalled();
+
+    schema.safeParse(1);
+    expect(second).toHaveBeenCalledWith(1, expect.objectContaining({ path: [] }));
+  });
+
+  it('attend les raffinements asynchrones', async () => {
+    const schema = s.string().superRefine(async (value, ctx) => {
+      await Promise.resolve();
+      if (value === 'taken') {
+        ctx.addIssue({ code: 'username.taken', message: 'Username taken' });
+      }
+    });
+
+    const result = await schema.safeParseAsync('taken');
+    expect(result.unwrapErr().issues[0]).toMatchObject({ code: 'username.taken', message: 'Username taken' });
+  });
+
+  it('refuse les raffinements asynchrones en validation synchrone', () => {
+    const rejected = s.string().superRefine(async () => {
+      throw new Error('indisponible');
+    });
+    const refined = s.string().refine(async value => value !== 'taken', 'Pris');
+
+    expect(rejected.safeParse('a').unwrapErr().issues[0].code).toBe('async.sync_parse');
+    expect(refined.safeParse('taken').unwrapErr().issues[0].code).toBe('async.sync_parse');
+    expect(() => refined.parse('libre')).toThrow('parseAsync');
+  });
+});
+
+describe('Manipulation de la forme des objets', () => {
+  const UserSchema = s.object({
+    id: s.string(),
+    name: s.string().min(2),
+    role: s.enum(['admin', 'user'] as const),
+    address: s.object({ city: s.string(), zip: s.string() }),
+  }).default('role', 'user');
+
+  it('étend et fusionne les formes', () => {
+    const WithAge = UserSchema.extend({ age: s.number(), name: s.string().max(5) });
+    const value: { id: string; name: string; age: number } = WithAge.parse({
+      id: '1',
+      name: 'Alice',
+      age: 30,
+      address: { city: 'Paris', zip: '75001' },
+    });
+
+    expect(value).toEqual({ id: '1', name: 'Alice', age: 30, role: 'user', address: { city: 'Paris', zip: '75001' } });
+    expect(WithAge.safeParse({ ...value, name: 'A' }).isOk()).toBe(true);
+    expect(WithAge.safeParse({ ...value, name: 'Alexandra' }).unwrapErr().issues[0].code).toBe('string.max_length');
+
+    const Merged = s.object({ id: s.number() }).merge(s.object({ tag: s.string() }).default('tag', 'none'));
+    expect(Merged.parse({ id: 1 })).toEqual({ id: 1, tag: 'none' });
+
+    const Strict = s.object({ id: s.number() }).passthrough().merge(s.object({ tag: s.string() }).strict());
+    expect(Strict.safeParse({ id: 1, tag: 'a', extra: true }).unwrapErr().issues[0].code).toBe('object.unrecognized_keys');
+    expect(s.object({ id: s.number() }).passthrough().merge(s.object({})).parse({ id: 1, extra: true }))
+      .toEqual({ id: 1, extra: true });
+  });
+
+  it('garde l\'extension par méthodes', () => {
+    const schema = s.object({ n: s.number() }).extend({ describeMe: () => 'object with n' });
+    expect(schema.describeMe()).toBe('object with n');
+  });
+
+  it('sélectionne ou retire des propriétés en gardant les défauts', () => {
+    const Summary = UserSchema.pick(['id', 'role']);
+    expect(Summary.parse({ id: '1', name: 'ignored' }, { stripUnknown: true })).toEqual({ id: '1', role: 'user' });
+
+    const WithoutAddress = UserSchema.omit('address');
+    const parsed: { id: string; name: string; role: 'admin' | 'user' } = WithoutAddress.parse({ id: '1', name: 'Al' });
+    expect(parsed).toEqual({ id: '1', name: 'Al', role: 'user' });
+  });
+
+  it('renvoie les clés sous forme d\'énumération', () => {
+    const Keys = UserSchema.keyof();
+    const key: 'id' | 'name' | 'role' | 'address' = Keys.parse('name');
+
+    expect(key).toBe('name');
+    expect(Keys.safeParse('email').unwrapErr().issues[0].code).toBe('enum.invalid');
+  });
+
+  it('rend toutes les propriétés optionnelles en profondeur, puis de nouveau requises', () => {
+    const Patch = UserSchema.deepPartial();
+    expect(Patch.parse({ address: { city: 'Lyon' } })).toEqual({ role: 'user', address: { city: 'Lyon' } });
+    expect(Patch.safeParse({ name: 'A' }).isOk()).toBe(false);
+
+    const Full = UserSchema.partial().required();
+    expect(Full.safeParse({ id: '1' }).unwrapErr().issues.map(issue => issue.path[0])).toEqual(['name', 'address']);
+
+    const full: { id: string; name: string } = Full.parse({ id: '1', name: 'Al', address: { city: 'Lyon', zip: '69001' } });
+    expect(full.name).toBe('Al');
+
+    const WithName = UserSchema.partial().required('name');
+    const withName: { name: string; id?: string } = WithName.parse({ name: 'Al' });
+    expect(withName).toEqual({ name: 'Al', role: 'user' });
+  });
+});
+
+describe('Politiques des clés inconnues', () => {
+  const shape = { name: s.string() };
+  const data = { name: 'Jo', extra: 1, other: 'x' };
+
+  it('rejette les clés inconnues en mode strict', () => {
+    const [issue] = s.object(shape).strict().safeParse(data).unwrapErr().issues;
+
+    expect(issue).toMatchObject({
+      path: [],
+      code: 'object.unrecognized_keys',
+      message: 'Unrecognized key(s) in object: extra, other',
+      params: { keys: ['extra', 'other'] },
+    });
+    expect(s.object(shape).strict('No extra keys').safeParse(data).unwrapErr().issues[0].message).toBe('No extra keys');
+  });
+
+  it('prend le pas sur l\'option stripUnknown', () => {
+    expect(s.object(shape).passthrough().parse(data, { stripUnknown: true })).toEqual(data);
+    expect(s.object(shape).strip().parse(data, { stripUnknown: false })).toEqual({ name: 'Jo' });
+    expect(s.object(shape).strict().safeParse(data, { stripUnknown: true }).isOk()).toBe(false);
+  });
+
+  it('valide les clés inconnues avec catchall', async () => {
+    const schema = s.object(shape).catchall(s.number());
+
+    expect(schema.parse({ name: 'Jo', a: 1, b: 2 }, { stripUnknown: true })).toEqual({ name: 'Jo', a: 1, b: 2 });
+    expect(schema.safeParse(data).unwrapErr().issues).toEqual([
+      expect.objectContaining({ path: ['other'], code: 'invalid_type' }),
+    ]);
+    expect((await schema.safeParseAsync(data)).unwrapErr().issues[0].path).toEqual(['other']);
+  });
+
+  it('applique les politiques aux schémas compilés et au JSON Schema', () => {
+    const strict = s.object(shape).strict();
+    const catchall = s.object(shape).catchall(s.number());
+
+    expect(strict.compile().safeParse(data).unwrapErr().issues[0].code).toBe('object.unrecognized_keys');
+    expect(strict.compile().parse({ name: 'Jo' })).toEqual({ name: 'Jo' });
+    expect(catchall.compile().parse({ name: 'Jo', a: 1 })).toEqual({ name: 'Jo', a: 1 });
+
+    expect(toJsonSchema(strict).additionalProperties).toBe(false);
+    expect(toJsonSchema(catchall).additionalProperties).toEqual({ type: 'number' });
+    expect(fromJsonSchema(toJsonSchema(strict)).safeParse(data).isOk()).toBe(false);
+  });
+
+  it('considère les noms hérités d\'Object comme des clés inconnues', async () => {
+    const input = { name: 'Jo', toString: 1, constructor: 'x', hasOwnProperty: true };
+    const strict = s.object(shape).strict();
+    const catchall = s.object(shape).catchall(s.number());
+
+    for (const schema of [strict, strict.compile()]) {
+      expect(schema.safeParse(input).unwrapErr().issues[0]).toMatchObject({
+        code: 'object.unrecognized_keys',
+        params: { keys: ['toString', 'constructor', 'hasOwnProperty'] },
+      });
+    }
+
+    for (const schema of [catchall, catchall.compile()]) {
+      expect(schema.safeParse(input).unwrapErr().issues.map(issue => issue.path)).toEqual([['constructor'], ['hasOwnProperty']]);
+      expect(schema.parse({ name: 'Jo', toString: 1 })).toEqual({ name: 'Jo', toString: 1 });
+    }
+
+    const result = await catchall.safeParseAsync(input);
+    expect(result.unwrapErr().issues.map(issue => issue.path)).toEqual([['constructor'], ['hasOwnProperty']]);
+  });
+});
+
+describe('Schémas optionnels et nullables', () => {
+  it('enveloppe tous les types de schémas', () => {
+    const role = s.enum(['admin', 'user'] as const);
+    const id = s.union([s.string(), s.number()]);
+
+    expect(role.optional().parse(undefined)).toBeUndefined();
+    expect(role.nullable().parse(null)).toBeNull();
+    expect(id.nullish().parse(undefined)).toBeUndefined();
+    expect(id.nullish().parse(null)).toBeNull();
+    expect(s.record(s.string(), s.number()).optional().parse(undefined)).toBeUndefined();
+    expect(s.custom(value => s.ok(value)).nullable().parse(null)).toBeNull();
+    expect(s.string().optional().safeParse(null).isOk()).toBe(false);
+    expect(s.string().nullable().safeParse(undefined).isOk()).toBe(false);
+    expect(s.string().nullable().unwrap()).toBeInstanceOf(s.string().constructor);
+  });
+
+  it('rend les propriétés optionnelles facultatives', async () => {
+    const schema = s.object({
+      name: s.string(),
+      age: s.number().optional(),
+      nickname: s.string().nullish(),
+      bio: s.string().nullable(),
+    });
+    const value: InferType<typeof schema> = { name: 'Jo', bio: null };
+
+    expect(schema.parse(value)).toEqual({ name: 'Jo', bio: null });
+    expect(schema.safeParse({ name: 'Jo' }).unwrapErr().issues.map(issue => issue.path)).toEqual([['bio']]);
+    expect(await schema.parseAsync({ name: 'Jo', bio: null })).toEqual({ name: 'Jo', bio: null });
+    expect(schema.compile().parse({ name: 'Jo', bio: null, nickname: null })).toEqual({ name: 'Jo', bio: null, nickname: null });
+    expect(schema.compile().safeParse({ name: 'Jo', bio: null, age: null }).isOk()).toBe(false);
+  });
+
+  it('détecte les propriétés optionnelles derrière une enveloppe', () => {
+    const schema = s.object({
+      described: s.string().optional().describe('Surnom'),
+      refined: s.string().optional().refine(value => value !== '', 'Vide'),
+      superRefined: s.string().optional().superRefine(() => undefined),
+      transformed: s.string().optional().transform(value => value?.trim()),
+      caught: s.number().optional().catch(0),
+    });
+
+    expect(schema.parse({})).toEqual({});
+    expect(schema.compile().parse({})).toEqual({});
+    expect(schema.parse({ transformed: ' a ' })).toEqual({ transformed: 'a' });
+    expect(s.object({ name: s.string().describe('Nom') }).safeParse({}).isOk()).toBe(false);
+  });
+
+  it('conserve l\'enveloppe dans les schémas partiels', () => {
+    const schema = s.object({ tags: s.array(s.string()).nullable() }).partial();
+
+    expect(schema.parse({})).toEqual({});
+    expect(schema.parse({ tags: null })).toEqual({ tags: null });
+  });
+
+  it('convertit les enveloppes en JSON Schema et en modèle de base de données', () => {
+    const schema = s.object({
+      name: s.string(),
+      age: s.number().optional(),
+      bio: s.string().nullable(),
+      role: s.literal('admin').nullable(),
+    });
+    const json = toJsonSchema(schema);
+
+    expect(json.required).toEqual(['name', 'bio', 'role']);
+    expect(json.properties!.age).toEqual({ type: 'number' });
+    expect(json.properties!.bio).toEqual({ type: ['string', 'null'] });
+    expect(json.properties!.role).toEqual({ anyOf: [{ type: 'string', const: 'admin' }, { type: 'null' }] });
+
+    const roundTrip = fromJsonSchema(json);
+    expect(roundTrip.parse({ name: 'Jo', bio: null, role: null })).toEqual({ name: 'Jo', bio: null, role: null });
+    expect(roundTrip.safeParse({ name: 'Jo', bio: null, role: null, age: 'x' }).isOk()).toBe(false);
+
+    const model = createModelFromSchema('user', schema);
+    expect(model.fields.map(({ name, type, required, nullable }) => ({ name, type, required, nullable }))).toEqual([
+      { name: 'name', type: 'string', required: true, nullable: undefined },
+      { name: 'age', type: 'number', required: false, nullable: undefined },
+      { name: 'bio', type: 'string', required: true, nullable: true },
+      { name: 'role', type: 'any', required: true, nullable: true },
+    ]);
+  });
+});
+
+describe('Valeurs de repli', () => {
+  it('remplace une sous-partie invalide par la valeur de repli', () => {
+    const schema = s.object({
+      theme: s.enum(['light', 'dark']).catch('light'),
+      fontSize: s.number().min(8).catch((input, error) => typeof input === 'string' ? Number(input) : error.issues.length * 12),
+    });
+
+    expect(schema.parse({ theme: 'blue', fontSize: 4 })).toEqual({ theme: 'light', fontSize: 12 });
+    expect(schema.parse({ theme: 'dark', fontSize: '14' })).toEqual({ theme: 'dark', fontSize: 14 });
+  });
+
+  it('signale les problèmes remplacés avec onCatch', async () => {
+    const schema = s.object({ name: s.string(), count: s.number().catch(0) });
+    const events: any[] = [];
+    const onCatch = (event: any) => events.push(event);
+
+    schema.parse({ name: 'a', count: 'x' }, { onCatch });
+    await schema.parseAsync({ name: 'a', count: 'y' }, { onCatch });
+    expect(events.map(event => [event.path, event.input, event.value, event.error.issues[0].code])).toEqual([
+      [['count'], 'x', 0, 'invalid_type'],
+      [['count'], 'y', 0, 'invalid_type'],
+    ]);
+
+    // Le schéma compilé ne signale pas deux fois lorsqu'il réinterprète une entrée invalide
+    events.length = 0;
+    expect(schema.compile().safeParse({ name: 1, count: 'x' }, { onCatch }).isOk()).toBe(false);
+    expect(events).toHaveLength(1);
+  });
+});
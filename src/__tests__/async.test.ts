@@ -0,0 +1,200 @@
+import { s, ValidationError } from '../index';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Validation asynchrone', () => {
+  describe('Schémas composés', () => {
+    const takenEmails = ['taken@example.com'];
+    const EmailSchema = s.string().email().asyncValidate(async (email) => {
+      await delay(1);
+      return !takenEmails.includes(email);
+    }, 'Email already taken');
+
+    it('exécute les validateurs asynchrones imbriqués dans un objet', async () => {
+      const UserSchema = s.object({
+        name: s.string(),
+        email: EmailSchema,
+      });
+
+      await expect(UserSchema.parseAsync({ name: 'John', email: 'free@example.com' }))
+        .resolves.toEqual({ name: 'John', email: 'free@example.com' });
+
+      const result = await UserSchema.safeParseAsync({ name: 'John', email: 'taken@example.com' });
+      expect(result.isErr()).toBe(true);
+
+      const issues = result.unwrapErr().issues;
+      expect(issues).toHaveLength(1);
+      expect(issues[0].path).toEqual(['email']);
+      expect(issues[0].message).toBe('Email already taken');
+    });
+
+    it('rapporte les erreurs au bon index dans un tableau', async () => {
+      const schema = s.object({
+        users: s.array(s.object({ email: EmailSchema })),
+      });
+
+      const result = await schema.safeParseAsync({
+        users: [{ email: 'a@example.com' }, { email: 'taken@example.com' }],
+      });
+
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr().issues[0].path).toEqual(['users', 1, 'email']);
+    });
+
+    it('traverse les unions, records, transformations et métadonnées', async () => {
+      const schema = s.record(
+        s.string(),
+        s.union([s.number(), EmailSchema.describe('Contact email')])
+      ).transform(record => Object.keys(record));
+
+      await expect(schema.parseAsync({ a: 1, b: 'x@example.com' })).resolves.toEqual(['a', 'b']);
+
+      const result = await schema.safeParseAsync({ a: 1, b: 'taken@example.com' });
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr().issues.map(issue => issue.path.join('.'))).toContain('b');
+    });
+
+    it('conserve les erreurs synchrones des enfants', async () => {
+      const schema = s.object({
+        name: s.string().min(3),
+        email: EmailSchema,
+      });
+
+      const result = await schema.safeParseAsync({ name: 'Jo', email: 'taken@example.com' });
+      const paths = result.unwrapErr().issues.map(issue => issue.path.join('.'));
+
+      expect(paths).toEqual(['name', 'email']);
+    });
+
+    it('attend les raffinements asynchrones', async () => {
+      const schema = s.object({
+        code: s.string().refine(async (value) => {
+          await delay(1);
+          return value === 'valid';
+        }, 'Invalid code'),
+      });
+
+      await expect(schema.parseAsync({ code: 'valid' })).resolves.toEqual({ code: 'valid' });
+      await expect(schema.parseAsync({ code: 'nope' })).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('Concurrence et annulation', () => {
+    it('limite le nombre de validateurs exécutés simultanément', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const schema = s.array(s.number().asyncValidate(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(2);
+        running--;
+        return true;
+      }));
+
+      const data = Array.from({ length: 20 }, (_, i) => i);
+
+      await expect(schema.parseAsync(data, { concurrency: 3 })).resolves.toEqual(data);
+      expect(maxRunning).toBe(3);
+    });
+
+    it('produit une erreur async.timeout pour les validateurs trop lents', async () => {
+      const schema = s.object({
+        slug: s.string().asyncValidate(() => new Promise<boolean>(() => undefined)),
+      });
+
+      const result = await schema.safeParseAsync({ slug: 'hello' }, { timeout: 10 });
+
+      expect(result.isErr()).toBe(true);
+      const [issue] = result.unwrapErr().issues;
+      expect(issue.code).toBe('async.timeout');
+      expect(issue.path).toEqual(['slug']);
+      expect(issue.params).toEqual({ timeout: 10 });
+    });
+
+    it('annule les validateurs en cours et en attente via un AbortSignal', async () => {
+      const controller = new AbortController();
+      const signals: AbortSignal[] = [];
+      let started = 0;
+
+      const schema = s.array(s.number().asyncValidate((_value, { signal }) => {
+        started++;
+        signals.push(signal);
+        return new Promise<boolean>(() => undefined);
+      }));
+
+      const pending = schema.safeParseAsync([1, 2, 3, 4], {
+        concurrency: 2,
+        signal: controller.signal,
+      });
+
+      await delay(1);
+      controller.abort();
+
+      const result = await pending;
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr().issues.every(issue => issue.code === 'async.aborted')).toBe(true);
+      expect(result.unwrapErr().issues).toHaveLength(4);
+      expect(started).toBe(2);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+  });
+
+  describe('Validateurs groupés', () => {
+    it('regroupe toutes les valeurs en un seul appel par exécution', async () => {
+      const calls: string[][] = [];
+      const existing = ['taken@example.com'];
+
+      const EmailSchema = s.string().asyncValidateBatch(async (emails) => {
+        calls.push(emails);
+        return emails.map(email => !existing.includes(email));
+      }, 'Email already taken');
+
+      const schema = s.object({
+        owner: EmailSchema,
+        members: s.array(s.object({ email: EmailSchema })),
+      });
+
+      const result = await schema.safeParseAsync({
+        owner: 'owner@example.com',
+        members: [{ email: 'a@example.com' }, { email: 'taken@example.com' }],
+      });
+
+      expect(calls).toEqual([['owner@example.com', 'a@example.com', 'taken@example.com']]);
+      expect(result.isErr()).toBe(true);
+
+      const issues = result.unwrapErr().issues;
+      expect(issues).toHaveLength(1);
+      expect(issues[0].path).toEqual(['members', 1, 'email']);
+      expect(issues[0].message).toBe('Email already taken');
+
+      await schema.parseAsync({ owner: 'x@example.com', members: [] });
+      expect(calls).toHaveLength(2);
+    });
+
+    it('accepte des Results et signale un nombre de résultats incorrect', async () => {
+      const schema = s.array(s.number().asyncValidateBatch(async (ids) =>
+        ids.map(id => id > 0 ? s.ok(id) : s.error(ValidationError.fromMessage('Unknown id')))
+      ));
+
+      const result = await schema.safeParseAsync([1, -1]);
+      expect(result.unwrapErr().issues.map(issue => issue.path.join('.'))).toEqual(['1']);
+
+      const broken = s.array(s.number().asyncValidateBatch(async () => [true]));
+      const brokenResult = await broken.safeParseAsync([1, 2]);
+      expect(brokenResult.unwrapErr().issues.map(issue => issue.code))
+        .toEqual(['async.batch_length', 'async.batch_length']);
+    });
+
+    it('signale async.error quand un validateur lève une exception', async () => {
+      const failing = async (): Promise<boolean[]> => {
+        throw new Error('service indisponible');
+      };
+      const batched = await s.array(s.number().asyncValidateBatch(failing)).safeParseAsync([1]);
+      const single = await s.number().asyncValidate(async () => failing().then(() => true)).safeParseAsync(1);
+
+      expect(batched.unwrapErr().issues[0]).toMatchObject({ code: 'async.error', params: { error: 'service indisponible' } });
+      expect(single.unwrapErr().issues[0]).toMatchObject({ code: 'async.error', params: { error: 'service indisponible' } });
+    });
+  });
+});
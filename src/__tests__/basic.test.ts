@@ -1,4 +1,5 @@
-import { s } from '../index';
+import { s, InferType, Brand, createModelFromSchema, createSchemaFromModel, registerFormat } from '../index';
+import { toJsonSchema, fromJsonSchema } from '../plugins/json-schema';
 
 describe('Basic Schema Validation', () => {
   describe('StringSchema', () => {
@@ -36,6 +37,126 @@ describe('Basic Schema Validation', () => {
       const schema = s.string().trim();
       expect(schema.parse('  hello  ')).toBe('hello');
     });
+
+    it('validates ISO dates, times and date-times', () => {
+      expect(s.string().date().safeParse('2024-02-29').isOk()).toBe(true);
+      expect(s.string().date().safeParse('2023-02-29').isOk()).toBe(false);
+      expect(s.string().time().safeParse('23:59:59.5').isOk()).toBe(true);
+      expect(s.string().time({ precision: 0 }).safeParse('23:59:59.5').isOk()).toBe(false);
+
+      const utc = s.string().datetime();
+      expect(utc.safeParse('2024-01-01T10:00:00.123Z').isOk()).toBe(true);
+      expect(utc.safeParse('2024-01-01T10:00:00+02:00').unwrapErr().issues[0].code).toBe('string.datetime');
+      expect(s.string().datetime({ offset: true }).safeParse('2024-01-01T10:00:00+02:00').isOk()).toBe(true);
+      expect(s.string().datetime({ precision: 3 }).safeParse('2024-01-01T10:00:00.12Z').isOk()).toBe(false);
+    });
+
+    it('validates network and identifier formats', () => {
+      const valid: Array<[ReturnType<typeof s.string>, string]> = [
+        [s.string().ipv4(), '192.168.0.1'],
+        [s.string().ipv6(), '2001:db8::ff00:42:8329'],
+        [s.string().ipv6(), '::ffff:192.0.2.1'],
+        [s.string().cidr(), '10.0.0.0/8'],
+        [s.string().cidr(), '2001:db8::/32'],
+        [s.string().hostname(), 'api.example.com'],
+        [s.string().ulid(), '01ARZ3NDEKTSV4RRFFQ69G5FAV'],
+        [s.string().cuid2(), 'tz4a98xxat96iws9zmbrgj3a'],
+        [s.string().nanoid(), 'V1StGXR8_Z5jdHi6B-myT'],
+        [s.string().base64(), 'aGVsbG8='],
+        [s.string().base64url(), 'aGVsbG8'],
+        [s.string().jwt(), 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln'],
+        [s.string().emoji(), '🎉👍🏽'],
+      ];
+      valid.forEach(([schema, value]) => expect(schema.safeParse(value).isOk()).toBe(true));
+
+      const invalid: Array<[ReturnType<typeof s.string>, string, string]> = [
+        [s.string().ipv4(), '256.1.1.1', 'string.ipv4'],
+        [s.string().ipv6(), '1::2::3', 'string.ipv6'],
+        [s.string().cidr(), '10.0.0.0/33', 'string.cidr'],
+        [s.string().hostname(), '-bad.example.com', 'string.hostname'],
+        [s.string().ulid(), '81ARZ3NDEKTSV4RRFFQ69G5FAV', 'string.ulid'],
+        [s.string().nanoid(), 'too-short', 'string.nanoid'],
+        [s.string().cuid2(), 'hello', 'string.cuid2'],
+        [s.string().base64(), 'aGVsbG8', 'string.base64'],
+        [s.string().jwt(), 'not.a.jwt', 'string.jwt'],
+        [s.string().emoji(), 'abc', 'string.emoji'],
+      ];
+      invalid.forEach(([schema, value, code]) => {
+        expect(schema.safeParse(value).unwrapErr().issues[0].code).toBe(code);
+      });
+    });
+
+    it('checks length, prefix, suffix and substring', () => {
+      const schema = s.string().length(8).startsWith('SKU-').endsWith('X').includes('42');
+      expect(schema.parse('SKU-042X')).toBe('SKU-042X');
+      expect(schema.safeParse('ABC-1234').unwrapErr().issues.map(issue => issue.code)).toEqual([
+        'string.starts_with',
+        'string.ends_with',
+        'string.includes',
+      ]);
+      expect(schema.safeParse('SKU-42X').unwrapErr().issues[0]).toMatchObject({
+        code: 'string.length',
+        params: { length: 8, actual: 7 },
+      });
+    });
+
+    it('normalizes case before the checks', () => {
+      expect(s.string().trim().lowercase().email().parse('  John@Example.COM ')).toBe('john@example.com');
+      expect(s.string().uppercase().startsWith('FR').parse('fr-123')).toBe('FR-123');
+      expect(s.string().uppercase().compile().parse('abc')).toBe('ABC');
+    });
+
+    it('maps formats to JSON Schema', () => {
+      expect(toJsonSchema(s.string().datetime())).toEqual({ type: 'string', format: 'date-time' });
+      expect(toJsonSchema(s.string().url())).toEqual({ type: 'string', format: 'uri' });
+      expect(toJsonSchema(s.string().ipv6())).toEqual({ type: 'string', format: 'ipv6' });
+      expect(toJsonSchema(s.string().length(2))).toEqual({ type: 'string', minLength: 2, maxLength: 2 });
+
+      const hostname = fromJsonSchema({ type: 'string', format: 'hostname' });
+      expect(hostname.safeParse('example.com').isOk()).toBe(true);
+      expect(hostname.safeParse('not a host').isOk()).toBe(false);
+      expect(fromJsonSchema({ type: 'string', format: 'date-time' }).safeParse('2024-01-01T10:00:00+02:00').isOk()).toBe(true);
+    });
+
+    it('validates registered formats', () => {
+      registerFormat('sku', {
+        validate: value => /^SKU-\d{4}$/.test(value),
+        normalize: value => value.trim().toUpperCase(),
+        jsonSchemaFormat: 'x-sku',
+        example: 'SKU-0042',
+      });
+
+      const schema = s.string().format('sku');
+      expect(schema.parse(' sku-0042 ')).toBe('SKU-0042');
+      expect(schema.compile().parse('sku-0042')).toBe('SKU-0042');
+      expect(schema.safeParse('SKU-42').unwrapErr().issues[0]).toMatchObject({
+        code: 'string.invalid_format',
+        message: 'Invalid sku',
+        params: { format: 'sku' },
+      });
+      expect(s.string().format('missing').safeParse('x').unwrapErr().issues[0].code).toBe('string.format');
+      expect(s.string().format('ipv4').safeParse('1.2.3').unwrapErr().issues[0].code).toBe('string.ipv4');
+    });
+
+    it('round-trips registered formats through JSON Schema and DB models', () => {
+      registerFormat('siret', {
+        validate: value => /^\d{14}$/.test(value),
+        normalize: value => value.replace(/\s/g, ''),
+        jsonSchemaFormat: 'x-siret',
+        example: '73282932000074',
+      });
+
+      const json = toJsonSchema(s.string().format('siret'));
+      expect(json).toEqual({ type: 'string', format: 'x-siret', examples: ['73282932000074'] });
+      expect(fromJsonSchema(json).parse('732 829 320 00074')).toBe('73282932000074');
+
+      const model = createModelFromSchema('Company', s.object({ siret: s.string().format('siret') }));
+      expect(model.fields[0].constraints).toEqual({ format: 'siret' });
+
+      const restored = createSchemaFromModel(model);
+      expect(restored.safeParse({ siret: '12345678901234' }).isOk()).toBe(true);
+      expect(restored.safeParse({ siret: '123' }).unwrapErr().issues[0].code).toBe('string.invalid_format');
+    });
   });
   
   describe('NumberSchema', () => {
@@ -76,6 +197,49 @@ describe('Basic Schema Validation', () => {
       expect(() => schema.parse(0)).toThrow();
       expect(() => schema.parse(5)).toThrow();
     });
+
+    it('validates exclusive bounds and signs including zero', () => {
+      const schema = s.number().gt(0).lt(10);
+      expect(schema.parse(9.99)).toBe(9.99);
+      expect(schema.safeParse(0).unwrapErr().issues[0]).toMatchObject({ code: 'number.gt', params: { gt: 0, value: 0 }, message: 'Number must be greater than 0' });
+      expect(schema.safeParse(10).unwrapErr().issues[0]).toMatchObject({ code: 'number.lt', params: { lt: 10 } });
+      expect(s.number().gte(1).lte(2).parse(2)).toBe(2);
+
+      expect(s.number().nonnegative().parse(0)).toBe(0);
+      expect(s.number().nonnegative().safeParse(-1).unwrapErr().issues[0].code).toBe('number.nonnegative');
+      expect(s.number().nonpositive().safeParse(1).unwrapErr().issues[0].code).toBe('number.nonpositive');
+      expect(s.number().positive().nonnegative().parse(0)).toBe(0);
+    });
+
+    it('validates finite numbers and safe integers', () => {
+      expect(s.number().parse(Infinity)).toBe(Infinity);
+      expect(s.number().finite().safeParse(Infinity).unwrapErr().issues[0].code).toBe('number.finite');
+      expect(s.number().safe().parse(Number.MAX_SAFE_INTEGER)).toBe(Number.MAX_SAFE_INTEGER);
+      expect(s.number().safe().safeParse(2 ** 53).unwrapErr().issues[0].code).toBe('number.safe');
+      expect(s.number().safe().compile().safeParse(1.5).isOk()).toBe(false);
+    });
+
+    it('checks steps and precision without floating point errors', () => {
+      expect(s.number().step(0.1).parse(0.3)).toBe(0.3);
+      expect(s.number().multipleOf(0.01).parse(1.15)).toBe(1.15);
+      expect(s.number().step(0.1).compile().parse(1.1)).toBe(1.1);
+      expect(s.number().step(0.1).safeParse(0.35).unwrapErr().issues[0].code).toBe('number.multiple_of');
+
+      const amount = s.number().precision(2);
+      expect(amount.parse(19.99)).toBe(19.99);
+      expect(amount.safeParse(19.999).unwrapErr().issues[0]).toMatchObject({ code: 'number.precision', params: { precision: 2 } });
+      expect(amount.compile().safeParse(1e-7).isOk()).toBe(false);
+    });
+
+    it('emits exclusive bounds in JSON Schema', () => {
+      expect(toJsonSchema(s.number().gt(0).lte(100))).toEqual({ type: 'number', exclusiveMinimum: 0, maximum: 100 });
+      expect(toJsonSchema(s.number().positive().gt(5))).toEqual({ type: 'number', exclusiveMinimum: 5 });
+      expect(toJsonSchema(s.number().nonnegative().precision(2))).toEqual({ type: 'number', minimum: 0, multipleOf: 0.01 });
+
+      const schema = fromJsonSchema({ type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 });
+      expect(schema.safeParse(0).isOk()).toBe(false);
+      expect(schema.safeParse(0.5).isOk()).toBe(true);
+    });
   });
   
   describe('ObjectSchema', () => {
@@ -154,6 +318,88 @@ describe('Basic Schema Validation', () => {
     });
   });
   
+  describe('TupleSchema', () => {
+    it('validates items by position', () => {
+      const schema = s.tuple([s.string(), s.number()]);
+      const value: [string, number] = schema.parse(['a', 1]);
+
+      expect(value).toEqual(['a', 1]);
+      expect(schema.safeParse(['a', 'b']).unwrapErr().issues[0].path).toEqual([1]);
+      expect(schema.safeParse(['a']).unwrapErr().issues[0]).toMatchObject({ path: [1], code: 'invalid_type' });
+      expect(schema.safeParse(['a', 1, true]).unwrapErr().issues[0]).toMatchObject({
+        path: [],
+        code: 'tuple.max_length',
+        params: { max: 2, actual: 3 },
+      });
+    });
+
+    it('allows optional trailing items', () => {
+      const schema = s.tuple([s.string(), s.number().optional(), s.boolean().default(false)]);
+      const value: [string, (number | undefined)?, boolean?] = schema.parse(['a']);
+
+      expect(value).toEqual(['a', undefined, false]);
+      expect(schema.parse(['a', 1, true])).toEqual(['a', 1, true]);
+      expect(s.tuple([s.string(), s.number().optional()]).parse(['a'])).toEqual(['a']);
+    });
+
+    it('validates variadic tails with rest', async () => {
+      const schema = s.tuple([s.string()]).rest(s.number());
+      const value: [string, ...number[]] = schema.parse(['a', 1, 2]);
+
+      expect(value).toEqual(['a', 1, 2]);
+      expect(schema.parse(['a'])).toEqual(['a']);
+      expect(schema.safeParse(['a', 1, 'b']).unwrapErr().issues[0].path).toEqual([2]);
+      expect((await schema.safeParseAsync(['a', 1, 'b'])).unwrapErr().issues[0].path).toEqual([2]);
+    });
+
+    it('converts to JSON Schema with prefixItems', () => {
+      const json = toJsonSchema(s.tuple([s.string(), s.number().optional()]));
+
+      expect(json).toMatchObject({ type: 'array', items: false, minItems: 1, maxItems: 2 });
+      expect(json.prefixItems![0]).toEqual({ type: 'string' });
+      expect(toJsonSchema(s.tuple([s.string()]).rest(s.number())).items).toEqual({ type: 'number' });
+      expect(fromJsonSchema(json).parse(['a'])).toEqual(['a']);
+      expect(fromJsonSchema(json).safeParse(['a', 1, 2]).isOk()).toBe(false);
+    });
+  });
+
+  describe('MapSchema and SetSchema', () => {
+    it('validates map entries and size', async () => {
+      const schema = s.map(s.string(), s.number()).min(1);
+      const value: Map<string, number> = schema.parse(new Map([['a', 1]]));
+
+      expect(value).toEqual(new Map([['a', 1]]));
+      expect(() => schema.parse({ a: 1 })).toThrow();
+      expect(schema.safeParse(new Map()).unwrapErr().issues[0]).toMatchObject({ code: 'map.min_size', params: { min: 1, actual: 0 } });
+      expect(schema.safeParse(new Map<unknown, unknown>([['a', 1], [2, 'b']])).unwrapErr().issues.map(issue => issue.path)).toEqual([
+        [1, 'key'],
+        [1, 'value'],
+      ]);
+      expect((await schema.safeParseAsync(new Map([['a', 'b']]))).unwrapErr().issues[0].path).toEqual([0, 'value']);
+    });
+
+    it('validates set items and size', async () => {
+      const schema = s.set(s.string()).max(2);
+      const value: Set<string> = schema.parse(new Set(['a', 'b']));
+
+      expect(value).toEqual(new Set(['a', 'b']));
+      expect(() => schema.parse(['a'])).toThrow();
+      expect(schema.safeParse(new Set(['a', 'b', 'c'])).unwrapErr().issues[0].code).toBe('set.max_size');
+      expect(schema.safeParse(new Set(['a', 1])).unwrapErr().issues[0].path).toEqual([1]);
+      expect((await schema.safeParseAsync(new Set([1]))).unwrapErr().issues[0].path).toEqual([0]);
+    });
+
+    it('converts JSON representations with coerce', () => {
+      const lookup = s.map(s.string(), s.number()).coerce();
+
+      expect(lookup.parse({ a: 1, b: 2 })).toEqual(new Map([['a', 1], ['b', 2]]));
+      expect(lookup.parse([['a', 1]])).toEqual(new Map([['a', 1]]));
+      expect(lookup.safeParse(['a', 1]).isOk()).toBe(false);
+      expect(s.set(s.number()).coerce().size(2).parse([1, 2, 1])).toEqual(new Set([1, 2]));
+      expect(toJsonSchema(s.set(s.number()).min(1))).toEqual({ type: 'array', items: { type: 'number' }, uniqueItems: true, minItems: 1 });
+    });
+  });
+
   describe('EnumSchema', () => {
     it('validates enum values', () => {
       const schema = s.enum(['red', 'green', 'blue'] as const);
@@ -165,6 +411,206 @@ describe('Basic Schema Validation', () => {
     });
   });
   
+  describe('DateSchema', () => {
+    it('accepts dates, ISO strings and epoch numbers', () => {
+      const schema = s.date();
+      const date = new Date('2024-03-01T10:00:00.000Z');
+
+      expect(schema.parse(date)).toBe(date);
+      expect(schema.parse('2024-03-01T10:00:00.000Z')).toEqual(date);
+      expect(schema.parse(date.getTime())).toEqual(date);
+      expect(schema.safeParse('March 1st').unwrapErr().issues[0].code).toBe('invalid_type');
+      expect(schema.safeParse(new Date('nope')).unwrapErr().issues[0].code).toBe('date.invalid');
+
+      for (const text of ['2024-02-30', '2023-02-29', '2024-04-31', '2024-13-01', '2024-04-31T10:00:00Z']) {
+        expect(schema.safeParse(text).unwrapErr().issues[0].code).toBe('date.invalid');
+      }
+      expect(schema.parse('2024-02-29')).toEqual(new Date('2024-02-29T00:00:00.000Z'));
+      expect(schema.parse('2024-03-01T00:30:00+02:00')).toEqual(new Date('2024-02-29T22:30:00.000Z'));
+    });
+
+    it('validates min and max dates', () => {
+      const schema = s.date().min('2024-01-01').max(new Date('2024-12-31'));
+
+      expect(schema.parse('2024-06-15')).toEqual(new Date('2024-06-15'));
+      expect(schema.safeParse('2023-12-31').unwrapErr().issues[0]).toMatchObject({
+        code: 'date.min',
+        message: 'Date must be on or after 2024-01-01T00:00:00.000Z',
+      });
+      expect(schema.safeParse('2025-01-01').unwrapErr().issues[0].code).toBe('date.max');
+    });
+  });
+
+  describe('BigIntSchema', () => {
+    it('validates bigint ranges and signs', () => {
+      const schema = s.bigint().min(BigInt(-10)).max(BigInt(10));
+
+      expect(schema.parse(BigInt(5))).toBe(BigInt(5));
+      expect(() => schema.parse(5)).toThrow();
+      expect(schema.safeParse(BigInt(11)).unwrapErr().issues[0]).toMatchObject({
+        code: 'bigint.max',
+        params: { max: '10', value: '11' },
+      });
+      expect(s.bigint().positive().safeParse(BigInt(0)).unwrapErr().issues[0].code).toBe('bigint.positive');
+      expect(s.bigint().nonnegative().parse(BigInt(0))).toBe(BigInt(0));
+    });
+  });
+
+  describe('DecimalSchema', () => {
+    it('normalizes strings and numbers', () => {
+      const schema = s.decimal();
+
+      expect(schema.parse('0012.500')).toBe('12.5');
+      expect(schema.parse('1.5e3')).toBe('1500');
+      expect(schema.parse(-0.000001)).toBe('-0.000001');
+      expect(schema.parse('-0.00')).toBe('0');
+      expect(schema.safeParse('12,5').unwrapErr().issues[0].code).toBe('decimal.invalid');
+      expect(schema.safeParse(NaN).unwrapErr().issues[0].code).toBe('invalid_type');
+    });
+
+    it('validates precision and scale like NUMERIC(p, s)', () => {
+      const amount = s.decimal().precision(5).scale(2);
+
+      expect(amount.parse('123.4')).toBe('123.40');
+      expect(amount.safeParse('1.234').unwrapErr().issues[0]).toMatchObject({
+        code: 'decimal.scale',
+        params: { scale: 2, actual: 3 },
+      });
+      expect(amount.safeParse('1234').unwrapErr().issues[0]).toMatchObject({
+        code: 'decimal.precision',
+        params: { precision: 5, actual: 6 },
+      });
+    });
+
+    it('compares bounds without float rounding', () => {
+      const schema = s.decimal().min('0.1').max('9007199254740993.01');
+
+      expect(schema.parse('9007199254740993.01')).toBe('9007199254740993.01');
+      expect(schema.safeParse('9007199254740993.02').unwrapErr().issues[0].code).toBe('decimal.max');
+      expect(schema.safeParse('0.09999999999999999999').unwrapErr().issues[0]).toMatchObject({
+        code: 'decimal.min',
+        params: { min: '0.1' },
+      });
+      expect(s.decimal().min(-5).parse('-4.99')).toBe('-4.99');
+      expect(() => s.decimal().min('abc')).toThrow('Invalid decimal bound');
+    });
+
+    it('outputs instances of a decimal class', () => {
+      class Money {
+        constructor(readonly amount: string) {}
+        toString() {
+          return this.amount;
+        }
+      }
+
+      const schema = s.decimal().scale(2).as(Money);
+      const value: Money = schema.parse('19.9');
+
+      expect(value).toBeInstanceOf(Money);
+      expect(value.amount).toBe('19.90');
+      expect(schema.parse(new Money('5')).amount).toBe('5.00');
+    });
+
+    it('maps to JSON Schema and DECIMAL columns', () => {
+      expect(toJsonSchema(s.decimal().precision(12).scale(2))).toEqual({ type: 'string', format: 'decimal' });
+      expect(fromJsonSchema({ type: 'string', format: 'decimal' }).parse(1.5)).toBe('1.5');
+
+      const model = createModelFromSchema('Invoice', s.object({ total: s.decimal().precision(12).scale(2).min(0) }));
+      expect(model.fields[0]).toMatchObject({ type: 'DECIMAL(12,2)', constraints: { min: '0' } });
+
+      const restored = createSchemaFromModel(model);
+      expect(restored.parse({ total: '10.5' })).toEqual({ total: '10.50' });
+      expect(restored.safeParse({ total: '-1' }).unwrapErr().issues[0].code).toBe('decimal.min');
+    });
+  });
+
+  describe('Special primitives', () => {
+    it('validates symbol, undefined, void, never and unknown', () => {
+      const tag = Symbol('tag');
+
+      expect(s.symbol().parse(tag)).toBe(tag);
+      expect(() => s.symbol().parse('tag')).toThrow();
+      expect(s.undefined().parse(undefined)).toBeUndefined();
+      expect(() => s.undefined().parse(null)).toThrow();
+      expect(s.void().safeParse(undefined).isOk()).toBe(true);
+      expect(s.never().safeParse('x').unwrapErr().issues[0].params).toEqual({ expected: 'never', received: 'string' });
+      expect(s.unknown().parse({ any: 'thing' })).toEqual({ any: 'thing' });
+    });
+
+    it('infers the value types', () => {
+      const schema = s.object({ at: s.date(), id: s.bigint(), tag: s.symbol(), data: s.unknown() });
+      const value: InferType<typeof schema> = { at: new Date(), id: BigInt(1), tag: Symbol('x'), data: null };
+      const at: Date = value.at;
+      const id: bigint = value.id;
+
+      expect(at).toBeInstanceOf(Date);
+      expect(typeof id).toBe('bigint');
+    });
+
+    it('lets properties typed any, unknown, undefined or void be missing', () => {
+      const schema = s.object({ a: s.any(), u: s.unknown(), n: s.undefined(), v: s.void() });
+      const value: InferType<typeof schema> = {};
+
+      expect(schema.parse(value)).toEqual({});
+      expect(schema.compile().parse({})).toEqual({});
+      expect(schema.parse({ a: 1, u: 'x', n: undefined })).toEqual({ a: 1, u: 'x', n: undefined });
+      expect(schema.safeParse({ n: null }).unwrapErr().issues[0].path).toEqual(['n']);
+      expect(toJsonSchema(schema).required).toEqual([]);
+    });
+
+    it('converts the new primitives to JSON Schema and DB models', () => {
+      expect(toJsonSchema(s.date().min('2024-01-01'))).toEqual({
+        type: 'string',
+        format: 'date-time',
+        formatMinimum: '2024-01-01T00:00:00.000Z',
+      });
+      expect(toJsonSchema(s.bigint().positive())).toEqual({ type: 'integer', format: 'int64', exclusiveMinimum: 0 });
+      expect(toJsonSchema(s.never())).toEqual({ not: {} });
+      expect(toJsonSchema(s.unknown())).toEqual({});
+
+      const model = createModelFromSchema('event', s.object({ at: s.date(), id: s.bigint(), data: s.unknown() }));
+      expect(model.fields.map(field => field.type)).toEqual(['date', 'bigint', 'any']);
+
+      const restored = createSchemaFromModel(createModelFromSchema('event', s.object({ at: s.date().min('2024-01-01') })));
+      expect(restored.parse({ at: '2024-03-01T10:00:00.000Z' })).toEqual({ at: new Date('2024-03-01T10:00:00.000Z') });
+      expect(restored.safeParse({ at: new Date('2023-12-31') }).unwrapErr().issues[0].code).toBe('date.min');
+    });
+  });
+  
+  describe('Branded types', () => {
+    it('keeps brands through objects, arrays, unions and optional values', () => {
+      const UserId = s.string().uuid().brand<'UserId'>();
+      const OrderId = s.string().uuid().brand<'OrderId'>();
+      const Order = s.object({
+        id: OrderId,
+        userId: UserId,
+        related: s.array(OrderId),
+        owner: s.union([UserId, s.number()]),
+        reviewer: UserId.optional(),
+      });
+      const uuid = '123e4567-e89b-42d3-a456-426614174000';
+      const order: InferType<typeof Order> = Order.parse({ id: uuid, userId: uuid, related: [uuid], owner: 1 });
+      const findUser = (id: Brand<string, 'UserId'>) => id;
+
+      expect(findUser(order.userId)).toBe(uuid);
+      // @ts-expect-error an order id is not a user id
+      findUser(order.id);
+      // @ts-expect-error array items keep their brand
+      findUser(order.related[0]);
+      // @ts-expect-error plain strings are not branded
+      findUser(uuid);
+
+      const owner: Brand<string, 'UserId'> | number = order.owner;
+      // @ts-expect-error union members keep their brand
+      const wrongOwner: Brand<string, 'OrderId'> | number = order.owner;
+      const reviewer: Brand<string, 'UserId'> | undefined = order.reviewer;
+      const draftUser: Brand<string, 'UserId'> | undefined = Order.deepPartial().parse({}).userId;
+
+      expect([owner, wrongOwner, reviewer, draftUser]).toEqual([1, 1, undefined, undefined]);
+      expect(() => UserId.parse('not-a-uuid')).toThrow();
+    });
+  });
+
   describe('Result type', () => {
     it('handles success results', () => {
       const result = s.ok(42);
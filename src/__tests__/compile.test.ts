@@ -0,0 +1,138 @@
+import { s, Schema, registerFormat } from '../index';
+
+describe('Schémas compilés', () => {
+  const UserSchema = s.object({
+    id: s.string().uuid(),
+    name: s.string().trim().min(2).max(50),
+    email: s.string().email(),
+    age: s.number().int().positive().max(150),
+    role: s.enum(['admin', 'user'] as const),
+    tags: s.array(s.string().min(1)).max(5).unique(),
+    theme: s.string().default('light'),
+    contact: s.union([
+      s.object({ kind: s.enum(['email'] as const), address: s.string().email() }),
+      s.object({ kind: s.enum(['phone'] as const), number: s.string().regex(/^\+?\d+$/) }),
+    ]),
+    score: s.number().refine(n => n % 2 === 0, 'Score must be even').describe('Even score'),
+  });
+
+  const valid = {
+    id: '123e4567-e89b-42d3-a456-426614174000',
+    name: '  John  ',
+    email: 'john@example.com',
+    age: 30,
+    role: 'admin',
+    tags: ['a', 'b'],
+    contact: { kind: 'phone', number: '+3312345' },
+    score: 4,
+    extra: true,
+  };
+
+  const invalidInputs: unknown[] = [
+    null,
+    'nope',
+    { ...valid, name: 'J' },
+    { ...valid, age: -1.5, role: 'guest' },
+    { ...valid, tags: ['a', 'a', ''] },
+    { ...valid, contact: { kind: 'phone', number: 'abc' } },
+    { ...valid, score: 3 },
+    { id: valid.id },
+  ];
+
+  it('produit la même sortie que le schéma interprété', () => {
+    const compiled = UserSchema.compile();
+
+    expect(compiled.parse(valid)).toEqual(UserSchema.parse(valid));
+    expect(compiled.parse(valid, { stripUnknown: true })).toEqual(UserSchema.parse(valid, { stripUnknown: true }));
+    expect(Object.keys(compiled.parse(valid))).toEqual(Object.keys(UserSchema.parse(valid)));
+  });
+
+  it('produit les mêmes issues que le schéma interprété', () => {
+    const compiled = UserSchema.compile();
+
+    for (const input of invalidInputs) {
+      const expected = UserSchema.safeParse(input);
+      const actual = compiled.safeParse(input);
+
+      expect(actual.isErr()).toBe(true);
+      expect(actual.unwrapErr().issues).toEqual(expected.unwrapErr().issues);
+    }
+
+    const abortEarly = compiled.safeParse(invalidInputs[3], { abortEarly: true });
+    expect(abortEarly.unwrapErr().issues).toEqual(
+      UserSchema.safeParse(invalidInputs[3], { abortEarly: true }).unwrapErr().issues
+    );
+  });
+
+  it('interprète les noeuds personnalisés au bon chemin', () => {
+    const schema = s.object({
+      items: s.array(s.object({
+        value: s.number().transform(n => n * 2),
+      })),
+    }).compile();
+
+    expect(schema.parse({ items: [{ value: 1 }, { value: 2 }] })).toEqual({
+      items: [{ value: 2 }, { value: 4 }],
+    });
+    expect(schema.safeParse({ items: [{ value: 'x' }] }).unwrapErr().issues[0].path)
+      .toEqual(['items', 0, 'value']);
+  });
+
+  it('compile les schémas partiels', () => {
+    const schema = s.object({ name: s.string(), age: s.number() }).compile().partial();
+
+    expect(schema.parse({ name: 'John' })).toEqual({ name: 'John' });
+    expect(() => schema.parse({ age: '30' })).toThrow();
+  });
+
+  it('reste identique au schéma interprété pour chaque vérification', () => {
+    const cases: Array<[Schema<any>, unknown[]]> = [
+      [s.string().length(3).startsWith('a').endsWith('c').includes('b'), ['abc', 'abd', 'ab']],
+      [s.string().datetime({ offset: true }), ['2024-01-01T10:00:00+02:00', '2024-01-01']],
+      [s.string().lowercase().normalize().min(2), ['ÉTÉ', 'A']],
+      [s.string({ lengthUnit: 'grapheme' }).max(1), ['👍🏽', '👍🏽👍']],
+      [s.string().cuid2(), ['tz4a98xxat96iws9zmbrgj3a', 'hello']],
+      [s.number().gt(0).lt(10).multipleOf(0.5), [9.5, 0, 10, 1.2]],
+      [s.number().finite().safe().nonnegative(), [3, Infinity, -1, 2 ** 60]],
+      [s.number().precision(2), [1.25, 1.255]],
+      [s.enum(['Paris', 'Lyon'] as const, { caseInsensitive: true }), ['PARIS', 'lyon', 'Nice']],
+      [s.array(s.string()).unique({ caseInsensitive: true }), [['a', 'b'], ['a', 'A']]],
+      [s.literal(42).nullable(), [42, null, 41]],
+      [s.object({ id: s.number() }).strict(), [{ id: 1 }, { id: 1, extra: true }]],
+      [s.object({ id: s.number() }).catchall(s.string()), [{ id: 1, tag: 'a' }, { id: 1, tag: 2 }]],
+      [s.object({ nick: s.string().optional().describe('Surnom'), data: s.unknown() }), [{}, { nick: 1 }]],
+      [s.discriminatedUnion('kind', [
+        s.object({ kind: s.literal('a'), n: s.number() }),
+        s.object({ kind: s.literal('b'), s: s.string() }),
+      ]), [{ kind: 'b', s: 'x' }, { kind: 'a', n: 'x' }, { n: 1 }]],
+    ];
+
+    for (const [schema, inputs] of cases) {
+      const compiled = schema.compile();
+
+      for (const input of inputs) {
+        const expected = schema.safeParse(input);
+        const actual = compiled.safeParse(input);
+
+        expect(actual.isOk()).toBe(expected.isOk());
+        expect(actual.isOk() ? actual.unwrap() : actual.unwrapErr().issues)
+          .toEqual(expected.isOk() ? expected.unwrap() : expected.unwrapErr().issues);
+      }
+    }
+  });
+
+  it('recherche les formats enregistrés à la validation', () => {
+    const schema = s.object({ iban: s.string().format('iban-compile') });
+    const compiled = schema.compile();
+
+    registerFormat('iban-compile', {
+      validate: value => /^[a-z]{2}\d{2}[a-z0-9]{10,30}$/i.test(value),
+      normalize: value => value.toUpperCase(),
+    });
+
+    const input = { iban: 'fr7630006000011234567890189' };
+    expect(compiled.parse(input)).toEqual(schema.parse(input));
+    expect(compiled.parse(input)).toEqual({ iban: 'FR7630006000011234567890189' });
+    expect(compiled.safeParse({ iban: 'nope' }).unwrapErr().issues[0].code).toBe('string.invalid_format');
+  });
+});
@@ -0,0 +1,215 @@
+import { s, ValidationError, toProblemDetails, createExpressValidator, withMetadata } from '../index';
+
+describe('Formatage des erreurs', () => {
+  const UserSchema = s.object({
+    name: s.string().min(3),
+    address: s.object({
+      city: s.string(),
+      zip: s.string().regex(/^\d{5}$/),
+    }),
+    tags: s.array(s.string().min(2)),
+  }).refine(user => user.name !== 'root', 'Reserved user');
+
+  const invalid = {
+    name: 'Jo',
+    address: { city: 42, zip: 'abc' },
+    tags: ['ok', 'x'],
+  };
+
+  it('sépare les erreurs du formulaire et des champs avec flatten()', () => {
+    const error = new ValidationError([
+      ...UserSchema.safeParse(invalid).unwrapErr().issues,
+      ...UserSchema.safeParse({ name: 'root', address: { city: 'Paris', zip: '75001' }, tags: [] }).unwrapErr().issues,
+    ]);
+
+    const flattened = error.flatten();
+    expect(flattened.formErrors).toEqual(['Reserved user']);
+    expect(flattened.fieldErrors).toEqual({
+      name: ['String must have at least 3 character(s)'],
+      address: ['Expected string, received number', 'String must match pattern: /^\\d{5}$/'],
+      tags: ['String must have at least 2 character(s)'],
+    });
+
+    expect(error.flatten(issue => issue.code).fieldErrors.address).toEqual(['invalid_type', 'string.pattern']);
+  });
+
+  it('imbrique les messages selon la forme des données avec format()', () => {
+    const formatted = UserSchema.safeParse(invalid).unwrapErr().format<typeof invalid>();
+
+    expect(formatted._errors).toEqual([]);
+    expect(formatted.name?._errors).toEqual(['String must have at least 3 character(s)']);
+    expect(formatted.address?.city?._errors).toEqual(['Expected string, received number']);
+    expect(formatted.address?.zip?._errors).toHaveLength(1);
+    expect(formatted.tags?.[1]._errors).toEqual(['String must have at least 2 character(s)']);
+    expect(formatted.tags?.[0]).toBeUndefined();
+  });
+
+  it('traite __proto__, constructor et toString comme des clés ordinaires', () => {
+    const schema = s.record(s.string(), s.object({ x: s.string() }));
+    const error = schema.safeParse(JSON.parse('{"__proto__":{},"constructor":{},"toString":{}}')).unwrapErr();
+
+    const formatted: Record<string, any> = error.format();
+    expect(({} as any).x).toBeUndefined();
+    expect(Object.keys(formatted)).toEqual(['_errors', '__proto__', 'constructor', 'toString']);
+    expect(formatted['constructor'].x._errors).toEqual(['Required property missing']);
+    expect(formatted['toString'].x._errors).toHaveLength(1);
+
+    const flattened = error.flatten();
+    expect(Object.keys(flattened.fieldErrors)).toEqual(['__proto__', 'constructor', 'toString']);
+    expect(flattened.fieldErrors.constructor).toEqual(['Required property missing']);
+  });
+
+  it('sérialise en problem details RFC 7807', () => {
+    const error = s.object({ 'a/b': s.array(s.number()) }).safeParse({ 'a/b': [1, 'x'] }).unwrapErr();
+
+    expect(toProblemDetails(error, { instance: '/users' })).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: error.message,
+      instance: '/users',
+      errors: [
+        {
+          pointer: '/a~1b/1',
+          path: 'a/b.1',
+          message: 'Expected number, received string',
+          code: 'invalid_type',
+          params: { expected: 'number', received: 'string' },
+        },
+      ],
+    });
+  });
+
+  it('ne renvoie pas les valeurs saisies dans les params', () => {
+    const error = s.object({ password: s.union([s.number(), s.boolean()]) })
+      .safeParse({ password: 'hunter2' })
+      .unwrapErr();
+    const [issue] = toProblemDetails(error).errors;
+
+    expect(issue.code).toBe('union.no_match');
+    expect(JSON.stringify(issue)).not.toContain('hunter2');
+
+    const custom = s.string().min(8, { params: { hint: 'passphrase' } }).safeParse('abc').unwrapErr();
+    expect(toProblemDetails(custom).errors[0].params).toEqual({ min: 8, actual: 3 });
+    expect(toProblemDetails(custom, { paramKeys: ['hint'] }).errors[0].params).toEqual({ min: 8, actual: 3, hint: 'passphrase' });
+  });
+
+  it('sérialise les bigints des params en chaînes', () => {
+    const error = s.object({ id: s.bigint().min(BigInt(10)) }).safeParse({ id: BigInt(3) }).unwrapErr();
+    const problem = toProblemDetails(error);
+
+    expect(problem.errors[0].params).toEqual({ min: '10' });
+    expect(() => JSON.stringify(toProblemDetails(s.union([s.string(), s.number()]).safeParse(BigInt(1)).unwrapErr()))).not.toThrow();
+    expect(() => JSON.stringify(toProblemDetails(s.enum([BigInt(1), BigInt(2)] as const).safeParse(3).unwrapErr()))).not.toThrow();
+  });
+
+  it('répond en problem details par défaut avec Express', () => {
+    const headers: Record<string, string> = {};
+    const res: any = {
+      setHeader: (name: string, value: string) => { headers[name] = value; },
+      status: jest.fn(() => res),
+      json: jest.fn(),
+    };
+    const next = jest.fn();
+
+    const middleware = createExpressValidator(s.object({ name: s.string() }));
+    middleware({ body: {}, originalUrl: '/users' }, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(headers['Content-Type']).toBe('application/problem+json');
+    expect(res.json.mock.calls[0][0]).toMatchObject({
+      status: 400,
+      instance: '/users',
+      errors: [{ pointer: '/name', code: 'object.required' }],
+    });
+  });
+});
+
+describe('Sévérité des problèmes', () => {
+  it('renvoie la valeur avec les avertissements des raffinements non bloquants', () => {
+    const schema = s.object({
+      password: s.string().refine(value => value.length >= 12, 'Weak password', { severity: 'warning' }),
+      bio: s.string().max(10, { message: 'Bio is long', severity: 'info' }),
+    });
+
+    const result = schema.safeParse({ password: 'secret', bio: 'A very long biography' });
+
+    expect(result.isOk()).toBe(true);
+    expect(result.unwrap().password).toBe('secret');
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ path: ['password'], code: 'custom', message: 'Weak password', severity: 'warning' }),
+      expect.objectContaining({ path: ['bio'], code: 'string.max_length', message: 'Bio is long', severity: 'info' }),
+    ]);
+  });
+
+  it('garde les erreurs bloquantes et les avertissements séparés', () => {
+    const schema = s.object({
+      name: s.string().min(3),
+      nickname: s.string().refine(value => value !== 'admin', 'Reserved nickname', { severity: 'warning' }),
+    });
+
+    const result = schema.safeParse({ name: 'Jo', nickname: 'admin' });
+
+    expect(result.unwrapErr().issues.map(issue => issue.code)).toEqual(['string.min']);
+    expect(result.warnings.map(issue => issue.message)).toEqual(['Reserved nickname']);
+  });
+
+  it('signale les champs obsolètes', () => {
+    const schema = withMetadata(s.object({
+      name: s.string(),
+      login: s.string().optional(),
+    })).markDeprecated('login');
+
+    expect(schema.safeParse({ name: 'Jo' }).warnings).toEqual([]);
+
+    const result = schema.safeParse({ name: 'Jo', login: 'jo' });
+    expect(result.unwrap()).toEqual({ name: 'Jo', login: 'jo' });
+    expect(result.warnings).toEqual([{
+      path: ['login'],
+      message: 'Field "login" is deprecated',
+      code: 'deprecated',
+      params: { field: 'login' },
+      severity: 'warning',
+    }]);
+  });
+
+  it('ignore les avertissements des alternatives rejetées d\'une union', () => {
+    const long = (value: string) => value.length > 5;
+    const schema = s.union([
+      s.string().refine(long, 'Short', { severity: 'warning' }).refine(value => value !== 'abc', 'Reserved'),
+      s.string().refine(long, 'Tiny', { severity: 'warning' }),
+    ]);
+
+    expect(schema.safeParse('abc').warnings.map(issue => issue.message)).toEqual(['Tiny']);
+  });
+
+  it('conserve les avertissements avec un schéma compilé', () => {
+    const schema = s.object({
+      tags: s.array(s.string()).max(2, { severity: 'warning' }),
+      legacy: withMetadata(s.number()).deprecated('Use "count" instead'),
+    });
+    const compiled = schema.compile();
+    const data = { tags: ['a', 'b', 'c'], legacy: 1 };
+
+    expect(compiled.safeParse(data).unwrap()).toEqual(data);
+    expect(compiled.safeParse(data).warnings).toEqual(schema.safeParse(data).warnings);
+    expect(compiled.safeParse(data).warnings.map(issue => issue.message)).toEqual([
+      'Array must contain at most 2 item(s)',
+      'Use "count" instead',
+    ]);
+  });
+
+  it('collecte les avertissements en validation asynchrone', async () => {
+    const schema = s.object({
+      email: s.string().refine(async value => !value.endsWith('@example.com'), 'Test address', { severity: 'warning' }),
+    });
+
+    const result = await schema.safeParseAsync({ email: 'jo@example.com' });
+
+    expect(result.isOk()).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ path: ['email'], message: 'Test address', severity: 'warning' }),
+    ]);
+  });
+});
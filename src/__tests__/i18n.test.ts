@@ -0,0 +1,152 @@
+import { s, setLocale, registerLocale, setErrorMap } from '../index';
+
+describe('Messages d\'erreur internationalisés', () => {
+  afterEach(() => {
+    setLocale('en');
+    setErrorMap(undefined);
+  });
+
+  const UserSchema = s.object({
+    name: s.string().min(3),
+    age: s.number(),
+    role: s.enum(['admin', 'user'] as const),
+  });
+
+  const invalidUser = { name: 'Jo', age: 'old', role: 'guest' };
+
+  it('utilise les messages anglais par défaut', () => {
+    const messages = UserSchema.safeParse(invalidUser).unwrapErr().issues.map(issue => issue.message);
+
+    expect(messages).toEqual([
+      'String must have at least 3 character(s)',
+      'Expected number, received string',
+      'Invalid enum value. Expected one of: admin, user',
+    ]);
+  });
+
+  it('traduit les messages selon la locale globale', () => {
+    setLocale('fr');
+
+    const issues = UserSchema.safeParse(invalidUser).unwrapErr().issues;
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'La chaîne doit contenir au moins 3 caractère(s)',
+      'Type attendu : number, reçu : string',
+      "Valeur d'énumération invalide. Valeurs attendues : admin, user",
+    ]);
+    expect(issues[0].code).toBe('string.min');
+  });
+
+  it('accepte une locale par appel et se rabat sur la langue de base', () => {
+    const result = s.object({ email: s.string().email() }).safeParse(
+      { email: 'nope' },
+      { locale: 'fr-CA' }
+    );
+
+    expect(result.unwrapErr().issues[0].message).toBe('Adresse e-mail invalide');
+  });
+
+  it('permet d\'enregistrer un catalogue partiel', () => {
+    registerLocale('de', { 'string.min': 'Mindestens {min} Zeichen' });
+
+    const issues = UserSchema.safeParse(invalidUser, { locale: 'de' }).unwrapErr().issues;
+
+    expect(issues[0].message).toBe('Mindestens 3 Zeichen');
+    // Codes absents du catalogue : repli sur l'anglais
+    expect(issues[1].message).toBe('Expected number, received string');
+  });
+
+  it('applique une errorMap globale ou par appel', () => {
+    setErrorMap(issue => issue.code === 'invalid_type' ? `Bad type at ${issue.path.join('.')}` : undefined);
+
+    const issues = UserSchema.safeParse(invalidUser).unwrapErr().issues;
+    expect(issues[1].message).toBe('Bad type at age');
+    expect(issues[0].message).toBe('String must have at least 3 character(s)');
+
+    const local = UserSchema.safeParse(invalidUser, {
+      errorMap: (issue, { defaultMessage }) => `[${issue.code}] ${defaultMessage}`,
+    }).unwrapErr().issues;
+    expect(local[0].message).toBe('[string.min] String must have at least 3 character(s)');
+  });
+
+  it('conserve les messages personnalisés des raffinements', () => {
+    setLocale('fr');
+
+    const schema = s.number().refine(n => n > 0, 'Must be positive');
+    expect(schema.safeParse(-1).unwrapErr().issues[0].message).toBe('Must be positive');
+  });
+
+  it('traduit les erreurs de la validation asynchrone', async () => {
+    const schema = s.string().asyncValidate(async () => false);
+    const result = await schema.safeParseAsync('x', { locale: 'fr' });
+
+    expect(result.unwrapErr().issues[0].message).toBe('Échec de la validation asynchrone');
+  });
+});
+
+describe('Messages personnalisés des validations intégrées', () => {
+  afterEach(() => setLocale('en'));
+
+  it('remplace le message d\'une validation et interpole ses paramètres', () => {
+    const schema = s.object({
+      name: s.string().min(3, 'Au moins {min} caractères'),
+      age: s.number().int('Entier requis').positive({ message: 'Must be > {floor}', params: { floor: 0 } }),
+      tags: s.array(s.string()).unique('No duplicates'),
+      email: s.string().email('Bad email'),
+    });
+
+    const issues = schema.safeParse({
+      name: 'Jo',
+      age: -1.5,
+      tags: ['a', 'a'],
+      email: 'nope',
+    }).unwrapErr().issues;
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Au moins 3 caractères',
+      'Entier requis',
+      'Must be > 0',
+      'No duplicates',
+      'Bad email',
+    ]);
+    expect(issues[2]).toMatchObject({ code: 'number.positive', params: { value: -1.5, floor: 0 } });
+  });
+
+  it('conserve les messages personnalisés au fil des appels chaînés et des locales', () => {
+    setLocale('fr');
+
+    const schema = s.string().regex(/^\d+$/, 'Digits only').min(2).trim();
+    const issues = schema.safeParse(' a ').unwrapErr().issues;
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'La chaîne doit contenir au moins 2 caractère(s)',
+      'Digits only',
+    ]);
+  });
+
+  it('applique required_error et invalid_type_error', () => {
+    const schema = s.object({
+      name: s.string({ required_error: 'Name is required', invalid_type_error: 'Name must be text' }),
+      age: s.number(),
+      role: s.enum(['admin', 'user'] as const, { message: 'Unknown role' }),
+    }).required('age', 'Age is required');
+
+    expect(schema.safeParse({ role: 'guest' }).unwrapErr().issues.map(issue => issue.message)).toEqual([
+      'Name is required',
+      'Age is required',
+      'Unknown role',
+    ]);
+
+    const [issue] = schema.safeParse({ name: 42, age: 1, role: 'user' }).unwrapErr().issues;
+    expect(issue).toMatchObject({ code: 'invalid_type', message: 'Name must be text' });
+
+    expect(s.number({ required_error: 'Missing' }).safeParse(undefined).unwrapErr().issues[0].message)
+      .toBe('Missing');
+  });
+
+  it('garde les messages dans les schémas partiels', () => {
+    const schema = s.object({ name: s.string().min(3, 'Too short') }).partial();
+
+    expect(schema.safeParse({ name: 'Jo' }).unwrapErr().issues[0].message).toBe('Too short');
+  });
+});
@@ -1,4 +1,4 @@
-import { s } from '../index';
+import { s, createExpressValidator } from '../index';
 
 describe('Transformations de données', () => {
   describe('Transformations simples', () => {
@@ -175,4 +175,76 @@ describe('Transformations de données', () => {
       expect(user.greet()).toBe('Hello, John Doe!');
     });
   });
-});
\ No newline at end of file
+});
+describe('Coercition des entrées', () => {
+  it('convertit les chaînes des requêtes et formulaires', () => {
+    expect(s.coerce.number().int().parse('42')).toBe(42);
+    expect(s.coerce.number().safeParse('abc').unwrapErr().issues[0].code).toBe('invalid_type');
+    expect(s.coerce.number().safeParse(' ').isOk()).toBe(false);
+    expect(['true', 'FALSE', '1', '0', 'on'].map(value => s.coerce.boolean().parse(value))).toEqual([true, false, true, false, true]);
+    expect(s.coerce.boolean().safeParse('yes').isOk()).toBe(false);
+    expect(['constructor', 'toString', '__proto__'].map(value => s.coerce.boolean().safeParse(value).isOk())).toEqual([false, false, false]);
+    expect(s.coerce.string().parse(12)).toBe('12');
+    expect(s.coerce.bigint().parse('9007199254740993')).toBe(BigInt('9007199254740993'));
+  });
+
+  it('accepte pour les dates tout ce que comprend le constructeur Date', () => {
+    expect(s.coerce.date().parse('May 15, 2023 12:00 UTC').toISOString()).toBe('2023-05-15T12:00:00.000Z');
+    expect(s.date().safeParse('May 15, 2023 12:00 UTC').isOk()).toBe(false);
+    expect(s.coerce.date().safeParse('not a date').unwrapErr().issues[0].code).toBe('date.invalid');
+  });
+
+  it('active la coercition par option, y compris pour les schémas compilés', () => {
+    const schema = s.object({ page: s.number().int(), draft: s.boolean() });
+
+    expect(schema.parse({ page: '2', draft: 'on' }, { coerce: true })).toEqual({ page: 2, draft: true });
+    expect(schema.compile().parse({ page: '2', draft: 'on' }, { coerce: true })).toEqual({ page: 2, draft: true });
+    expect(s.object({ page: s.coerce.number() }).compile().parse({ page: '3' })).toEqual({ page: 3 });
+    expect(schema.safeParse({ page: '2', draft: 'on' }).isOk()).toBe(false);
+  });
+
+  it('coerce la requête dans le middleware Express, pas le corps', () => {
+    const schema = s.object({ page: s.number() });
+    const run = (location: 'query' | 'body') => {
+      const req: any = { [location]: { page: '2' } };
+      const next = jest.fn();
+      createExpressValidator(schema, location, { coerce: true, continueOnError: true })(req, {}, next);
+      return req;
+    };
+
+    expect(run('query').query).toEqual({ page: 2 });
+    expect(run('body').validationError).toBeDefined();
+  });
+});
+
+describe('Texte Unicode', () => {
+  it('compte la longueur en points de code ou en graphèmes', () => {
+    const family = '👨‍👩‍👧';
+    const decomposed = 'e\u0301';
+
+    expect(s.string().max(1).safeParse(family).unwrapErr().issues[0].params).toEqual({ maxLength: 1, actual: 8 });
+    expect(s.string({ lengthUnit: 'code-point' }).max(5).parse(family)).toBe(family);
+    expect(s.string({ lengthUnit: 'grapheme' }).length(1).parse(family)).toBe(family);
+    expect(s.string({ lengthUnit: 'grapheme' }).max(1).compile().parse(decomposed)).toBe(decomposed);
+    expect(s.string({ lengthUnit: 'code-point' }).max(1).safeParse(decomposed).isOk()).toBe(false);
+  });
+
+  it('normalise les chaînes en NFC ou NFKC', () => {
+    expect(s.string().normalize().max(1).parse('e\u0301')).toBe('\u00e9');
+    expect(s.string().normalize('NFKC').parse('ﬁ１２')).toBe('fi12');
+    expect(s.string().normalize('NFKC').compile().parse('ﬁ')).toBe('fi');
+  });
+
+  it('compare sans tenir compte de la casse dans les énumérations et unique()', () => {
+    const Status = s.enum(['draft', 'Published'] as const, { caseInsensitive: true });
+    expect(Status.parse('DRAFT')).toBe('draft');
+    expect(Status.compile().parse('published')).toBe('Published');
+    expect(s.enum(['draft'] as const).safeParse('DRAFT').isOk()).toBe(false);
+
+    const Cities = s.array(s.string()).unique({ caseInsensitive: true, message: 'Duplicate city' });
+    const issue = Cities.safeParse(['Straße', 'Paris', 'STRASSE', 'PARIS']).unwrapErr().issues[0];
+    expect(issue).toMatchObject({ code: 'array.unique', message: 'Duplicate city', params: { duplicates: [2, 3] } });
+    expect(Cities.compile().safeParse(['Paris', 'paris']).isOk()).toBe(false);
+    expect(s.array(s.string()).unique().parse(['Paris', 'PARIS'])).toEqual(['Paris', 'PARIS']);
+  });
+});
@@ -194,4 +194,52 @@ describe('Unions et intersections de schémas', () => {
       expect(JsonValueSchema.parse(validJson)).toEqual(validJson);
     });
   });
-});
\ No newline at end of file
+});
+describe('Littéraux et littéraux de gabarit', () => {
+  it('valide une valeur littérale exacte', () => {
+    const admin = s.literal('admin');
+    const value: 'admin' = admin.parse('admin');
+
+    expect(value).toBe('admin');
+    expect(s.literal(42).parse(42)).toBe(42);
+    expect(s.literal(null).parse(null)).toBeNull();
+    expect(admin.safeParse('user').unwrapErr().issues[0]).toMatchObject({
+      code: 'literal.invalid',
+      message: 'Invalid literal value, expected "admin"',
+    });
+  });
+
+  it('valide et infère les littéraux de gabarit', () => {
+    const UserId = s.templateLiteral(['user_', s.number().int().positive()]);
+    const id: `user_${number}` = UserId.parse('user_42');
+
+    expect(id).toBe('user_42');
+    expect(UserId.safeParse('user_0').isOk()).toBe(false);
+    expect(UserId.safeParse('user_1.5').isOk()).toBe(false);
+    expect(UserId.safeParse('admin_1').unwrapErr().issues[0]).toMatchObject({
+      code: 'template_literal.invalid',
+      message: 'String must match the template user_${number}',
+    });
+
+    const Size = s.templateLiteral([s.number(), s.enum(['px', 'em'] as const)]);
+    expect(Size.parse('1.5em')).toBe('1.5em');
+    expect(Size.safeParse('1.5pt').isOk()).toBe(false);
+  });
+
+  it('sert de discriminant aux unions discriminées', () => {
+    const EventSchema = s.discriminatedUnion('type', [
+      s.object({ type: s.literal('click'), x: s.number() }),
+      s.object({ type: s.templateLiteral(['key_', s.string()]), key: s.string() }),
+    ]);
+
+    expect(EventSchema.parse({ type: 'click', x: 1 })).toEqual({ type: 'click', x: 1 });
+    expect(EventSchema.parse({ type: 'key_down', key: 'a' })).toEqual({ type: 'key_down', key: 'a' });
+
+    // Seule l'option correspondant au discriminant rapporte ses erreurs
+    expect(EventSchema.safeParse({ type: 'click', x: 'a' }).unwrapErr().issues.map(issue => issue.path)).toEqual([['x']]);
+    expect(EventSchema.safeParse({ type: 'scroll' }).unwrapErr().issues.map(issue => issue.code)).toEqual([
+      'union.no_discriminator_match',
+    ]);
+    expect(EventSchema.compile().parse({ type: 'key_up', key: 'b' })).toEqual({ type: 'key_up', key: 'b' });
+  });
+});
@@ -1,6 +1,223 @@
 import { Schema, ValidationOptions } from './schema';
-import { Result, ok, err, Ok, Err } from './result';
+import { Result, ok, err } from './result';
 import { ValidationError } from './errors';
+import { Path, toPathArray } from './path';
+import { MessageOptions } from './messages';
+
+/**
+ * Context passed to user-provided async validators
+ */
+export interface AsyncValidatorContext {
+  /**
+   * Aborted when the parse run is cancelled or the validator times out
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Asynchronous validator bound to a schema
+ * Receives the validation options so issues can be reported at the current path
+ */
+export type AsyncValidatorFn<T> = (
+  value: T,
+  options: ValidationOptions,
+  context: AsyncValidatorContext
+) => Promise<Result<T, ValidationError>>;
+
+/**
+ * Value waiting for its batch validator to be called
+ */
+interface PendingBatchEntry {
+  value: any;
+  resolve: (outcome: Result<any, ValidationError>) => void;
+}
+
+/**
+ * Schedules the async validators of a single parse run
+ * Enforces the concurrency limit, the abort signal and the per-validator timeout
+ */
+export class AsyncScheduler {
+  private readonly concurrency: number;
+  private readonly signal?: AbortSignal;
+  private readonly timeout?: number;
+  private readonly messages: MessageOptions;
+  private active: number = 0;
+  private readonly queue: Array<() => void> = [];
+  private readonly batches = new Map<AsyncBatchValidatorFn<any>, PendingBatchEntry[]>();
+
+  constructor(
+    options: Pick<ValidationOptions, 'concurrency' | 'signal' | 'timeout' | 'locale' | 'errorMap'> = {}
+  ) {
+    this.concurrency = options.concurrency !== undefined && options.concurrency > 0
+      ? options.concurrency
+      : Infinity;
+    this.signal = options.signal;
+    this.timeout = options.timeout;
+    this.messages = { locale: options.locale, errorMap: options.errorMap };
+  }
+
+  /**
+   * Run a validator once a slot is free
+   * Resolves with an `async.aborted` or `async.timeout` issue instead of hanging
+   */
+  async run<T>(
+    path: Path,
+    validator: (context: AsyncValidatorContext) => Promise<Result<T, ValidationError>>
+  ): Promise<Result<T, ValidationError>> {
+    await this.acquire();
+
+    try {
+      if (this.signal && this.signal.aborted) {
+        return err(this.abortedError(path));
+      }
+
+      return await this.execute(path, validator);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Queue a value for a batch validator
+   * Values queued for the same validator before the batch is dispatched share one call,
+   * which counts as a single validator for concurrency, abort and timeout purposes.
+   */
+  batch<T>(
+    validator: AsyncBatchValidatorFn<T>,
+    value: T
+  ): Promise<Result<boolean | Result<T, ValidationError>, ValidationError>> {
+    return new Promise(resolve => {
+      let entries = this.batches.get(validator);
+
+      if (!entries) {
+        entries = [];
+        this.batches.set(validator, entries);
+        // Let every sibling reach this point before dispatching
+        setTimeout(() => this.dispatch(validator), 0);
+      }
+
+      entries.push({ value, resolve });
+    });
+  }
+
+  /**
+   * Call a batch validator with all its queued values
+   */
+  private async dispatch<T>(validator: AsyncBatchValidatorFn<T>): Promise<void> {
+    const entries = this.batches.get(validator) || [];
+    this.batches.delete(validator);
+
+    const result = await this.run<Array<boolean | Result<T, ValidationError>>>([], async context => {
+      const outcomes = await validator(entries.map(entry => entry.value), context);
+
+      if (!Array.isArray(outcomes) || outcomes.length !== entries.length) {
+        return err(ValidationError.fromCode(
+          'async.batch_length',
+          [],
+          { expected: entries.length, received: Array.isArray(outcomes) ? outcomes.length : 'no' },
+          this.messages
+        ));
+      }
+
+      return ok(outcomes);
+    });
+
+    entries.forEach((entry, i) => {
+      entry.resolve(result.isOk() ? ok(result.unwrap()[i]) : err(result.unwrapErr()));
+    });
+  }
+
+  /**
+   * Execute a validator, racing it against the abort signal and the timeout
+   */
+  private execute<T>(
+    path: Path,
+    validator: (context: AsyncValidatorContext) => Promise<Result<T, ValidationError>>
+  ): Promise<Result<T, ValidationError>> {
+    const controller = new AbortController();
+    const signal = this.signal;
+
+    return new Promise(resolve => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (result: Result<T, ValidationError>) => {
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+        resolve(result);
+      };
+
+      const onAbort = () => {
+        controller.abort();
+        finish(err(this.abortedError(path)));
+      };
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      if (this.timeout !== undefined) {
+        const timeout = this.timeout;
+        timer = setTimeout(() => {
+          controller.abort();
+          finish(err(ValidationError.fromCode('async.timeout', path, { timeout }, this.messages)));
+        }, timeout);
+      }
+
+      validator({ signal: controller.signal }).then(finish, error => {
+        finish(err(
+          error instanceof ValidationError
+            ? error
+            : ValidationError.fromCode(
+                'async.error',
+                path,
+                { error: error instanceof Error ? error.message : String(error) },
+                this.messages
+              )
+        ));
+      });
+    });
+  }
+
+  /**
+   * Wait for a free slot
+   */
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.queue.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Free a slot and start the next queued validator
+   */
+  private release(): void {
+    this.active--;
+    const next = this.queue.shift();
+
+    if (next) {
+      next();
+    }
+  }
+
+  /**
+   * Create the error reported for cancelled validators
+   */
+  private abortedError(path: Path): ValidationError {
+    return ValidationError.fromCode('async.aborted', path, undefined, this.messages);
+  }
+}
 
 /**
  * Schema with asynchronous validation
@@ -8,7 +225,7 @@ import { ValidationError } from './errors';
 export class AsyncSchema<T> extends Schema<T> {
   constructor(
     private readonly baseSchema: Schema<T>,
-    private readonly asyncValidator: (value: T) => Promise<Result<T, ValidationError>>
+    private readonly asyncValidator: AsyncValidatorFn<T>
   ) {
     super();
   }
@@ -22,71 +239,23 @@ export class AsyncSchema<T> extends Schema<T> {
     // Just validate with base schema synchronously
     return this.baseSchema._parse(data, options);
   }
-  
+
   /**
-   * Parse and validate input data asynchronously
+   * Internal asynchronous parse method
+   * Validates with the base schema first, then runs the async validator
    */
-  async parseAsync(data: unknown, options: ValidationOptions = {}): Promise<T> {
-    // First validate with base schema
-    const baseResult = this.baseSchema.safeParse(data, options);
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const baseResult = await this.baseSchema._parseAsync(data, options);
 
     if (baseResult.isErr()) {
-      throw baseResult.unwrapErr();
+      return baseResult;
     }
 
-    // Then perform async validation
-    const asyncResult = await this.asyncValidator(baseResult.unwrap());
-
-    if (typeof asyncResult === 'boolean') {
-      if (!asyncResult) {
-        throw new ValidationError([{
-          path: options.path || [],
-          message: 'Async validation failed',
-          code: 'async.failed'
-        }]);
-      }
-      return baseResult.unwrap();
-    } else if (asyncResult === undefined || asyncResult === null) {
-      return baseResult.unwrap();
-    } else if (asyncResult && typeof asyncResult === 'object' && '_tag' in asyncResult) {
-      // It's a Result object
-      if (asyncResult._tag === 'Err') {
-        throw (asyncResult as Err<any, ValidationError>).unwrapErr();
-      }
-      return (asyncResult as Ok<T, ValidationError>).unwrap();
-    }
+    const scheduler = options.scheduler || new AsyncScheduler(options);
 
-    // Fallback for other cases
-    return baseResult.unwrap();
-  }
-  
-  /**
-   * Safely parse and validate input data asynchronously
-   */
-  async safeParseAsync(data: unknown, options: ValidationOptions = {}): Promise<Result<T, ValidationError>> {
-    try {
-      // First validate with base schema
-      const baseResult = this.baseSchema.safeParse(data, options);
-      
-      if (baseResult.isErr()) {
-        return baseResult;
-      }
-      
-      // Then perform async validation
-      return await this.asyncValidator(baseResult.unwrap());
-    } catch (error) {
-      return err(
-        error instanceof ValidationError
-          ? error
-          : new ValidationError([
-              {
-                path: options.path || [],
-                message: `Async validation failed: ${error instanceof Error ? error.message : String(error)}`,
-                code: 'async.failed',
-              },
-            ])
-      );
-    }
+    return scheduler.run(options.path || [], context =>
+      this.asyncValidator(baseResult.unwrap(), options, context)
+    );
   }
   
   /**
@@ -104,53 +273,148 @@ export class AsyncSchema<T> extends Schema<T> {
   }
 }
 
+/**
+ * Convert the outcome of a user-provided async validator into a Result
+ */
+function toAsyncResult<T>(
+  outcome: boolean | Result<T, ValidationError> | void,
+  value: T,
+  options: ValidationOptions,
+  errorMessage?: string
+): Result<T, ValidationError> {
+  const path = options.path || [];
+
+  // If the validator returns a boolean
+  if (typeof outcome === 'boolean') {
+    if (outcome) {
+      return ok(value);
+    }
+
+    return err(
+      errorMessage
+        ? new ValidationError([{ path: toPathArray(path), message: errorMessage, code: 'async.failed' }])
+        : ValidationError.fromCode('async.failed', path, undefined, options)
+    );
+  }
+
+  // If the validator returns void or undefined, assume success
+  if (outcome === undefined || outcome === null) {
+    return ok(value);
+  }
+
+  // If the validator returns a Result, report its issues relative to the current path
+  return (outcome as Result<T, ValidationError>).mapErr(error =>
+    new ValidationError(
+      error.issues.map(issue => ({ ...issue, path: [...toPathArray(path), ...issue.path] }))
+    )
+  );
+}
+
 /**
  * Create a schema with asynchronous validation
  */
 export function asyncValidate<T>(
   schema: Schema<T>,
-  validator: (value: T) => Promise<boolean | Result<T, ValidationError> | void>,
+  validator: (value: T, context: AsyncValidatorContext) => Promise<boolean | Result<T, ValidationError> | void>,
   errorMessage?: string
 ): AsyncSchema<T> {
   // Convert simple validators to result validators
-  const resultValidator = async (value: T): Promise<Result<T, ValidationError>> => {
+  const resultValidator = async (
+    value: T,
+    options: ValidationOptions,
+    context: AsyncValidatorContext
+  ): Promise<Result<T, ValidationError>> => {
     try {
-      const validationResult = await validator(value);
-      
-      // If the validator returns a boolean
-      if (typeof validationResult === 'boolean') {
-        return validationResult
-          ? ok(value)
-          : err(
-              new ValidationError([
-                {
-                  path: [],
-                  message: errorMessage || 'Async validation failed',
-                  code: 'async.failed',
-                },
-              ])
-            );
-      }
-      
-      // If the validator returns void or undefined, assume success
-      if (validationResult === undefined) {
-        return ok(value);
-      }
-      
-      // If the validator returns a Result, use it directly
-      return validationResult as Result<T, ValidationError>;
+      return toAsyncResult(await validator(value, context), value, options, errorMessage);
     } catch (error) {
-      return err(
-        new ValidationError([
-          {
-            path: [],
-            message: `Async validation error: ${error instanceof Error ? error.message : String(error)}`,
-            code: 'async.error',
-          },
-        ])
-      );
+      return err(ValidationError.fromCode(
+        'async.error',
+        options.path || [],
+        { error: error instanceof Error ? error.message : String(error) },
+        options
+      ));
     }
   };
   
   return new AsyncSchema(schema, resultValidator);
-}
\ No newline at end of file
+}
+
+/**
+ * Schema with batched asynchronous validation
+ * All values reaching the same batch validator during one parse run are
+ * validated by a single call, DataLoader-style.
+ */
+export class AsyncBatchSchema<T> extends Schema<T> {
+  constructor(
+    private readonly baseSchema: Schema<T>,
+    private readonly batchValidator: AsyncBatchValidatorFn<T>,
+    private readonly errorMessage?: string
+  ) {
+    super();
+  }
+
+  /**
+   * Internal parse method
+   * Batched validation only runs through parseAsync
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    return this.baseSchema._parse(data, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   * Queues the value in the current run's batch for this validator
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const baseResult = await this.baseSchema._parseAsync(data, options);
+
+    if (baseResult.isErr()) {
+      return baseResult;
+    }
+
+    const value = baseResult.unwrap();
+    const path = options.path || [];
+    const scheduler = options.scheduler || new AsyncScheduler(options);
+    const outcome = await scheduler.batch(this.batchValidator, value);
+
+    if (outcome.isErr()) {
+      // Batch-level failures (timeout, abort, thrown error) are reported on every value
+      return err(new ValidationError(
+        outcome.unwrapErr().issues.map(issue => ({ ...issue, path: [...toPathArray(path), ...issue.path] }))
+      ));
+    }
+
+    return toAsyncResult(outcome.unwrap(), value, options, this.errorMessage);
+  }
+
+  /**
+   * Generate a partial schema
+   */
+  partial(): Schema<any> {
+    return new AsyncBatchSchema(
+      this.baseSchema.partial(),
+      this.batchValidator as any,
+      this.errorMessage
+    );
+  }
+}
+
+/**
+ * Batch validator receiving every value queued during a parse run
+ * Must resolve with one outcome per value, in the same order
+ */
+export type AsyncBatchValidatorFn<T> = (
+  values: T[],
+  context: AsyncValidatorContext
+) => Promise<Array<boolean | Result<T, ValidationError>>>;
+
+/**
+ * Create a schema with batched asynchronous validation
+ */
+export function asyncValidateBatch<T>(
+  schema: Schema<T>,
+  validator: AsyncBatchValidatorFn<T>,
+  errorMessage?: string
+): AsyncBatchSchema<T> {
+  return new AsyncBatchSchema(schema, validator, errorMessage);
+}
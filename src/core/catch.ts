@@ -0,0 +1,110 @@
+import { Schema, ValidationOptions } from './schema';
+import { Result, ok } from './result';
+import { ValidationError, ValidationIssue } from './errors';
+import { PathSegment, toPathArray } from './path';
+
+/**
+ * Fallback of a catching schema, or the function computing it from the failed input
+ */
+export type CatchFallback<T> = T | ((input: unknown, error: ValidationError) => T);
+
+/**
+ * Failure replaced by a fallback value, passed to the `onCatch` parse option
+ */
+export interface CatchEvent {
+  /**
+   * Path of the replaced value
+   */
+  path: PathSegment[];
+
+  /**
+   * Input that failed validation
+   */
+  input: unknown;
+
+  /**
+   * The replaced issues
+   */
+  error: ValidationError;
+
+  /**
+   * Fallback value used instead
+   */
+  value: unknown;
+}
+
+/**
+ * Schema replacing failed validations with a fallback value
+ */
+export class CatchSchema<T> extends Schema<T> {
+  constructor(
+    private readonly baseSchema: Schema<T>,
+    private readonly fallback: CatchFallback<T>
+  ) {
+    super();
+  }
+
+  /**
+   * The wrapped schema
+   */
+  unwrap(): Schema<T> {
+    return this.baseSchema;
+  }
+
+  /**
+   * Optional when the wrapped schema is
+   */
+  isOptional(): boolean {
+    return this.baseSchema.isOptional();
+  }
+
+  /**
+   * Internal parse method
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const warnings: ValidationIssue[] = [];
+    return this._recover(data, this.baseSchema._parse(data, { ...options, warnings }), warnings, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const warnings: ValidationIssue[] = [];
+    return this._recover(data, await this.baseSchema._parseAsync(data, { ...options, warnings }), warnings, options);
+  }
+
+  /**
+   * Keep a successful result with its warnings, or replace a failed one
+   * Warnings of a replaced subtree are dropped along with its issues.
+   */
+  private _recover(
+    data: unknown,
+    result: Result<T, ValidationError>,
+    warnings: ValidationIssue[],
+    options: ValidationOptions
+  ): Result<T, ValidationError> {
+    if (result.isOk()) {
+      warnings.forEach(warning => this.report(warning, options));
+      return result;
+    }
+
+    const error = result.unwrapErr();
+    const value = typeof this.fallback === 'function'
+      ? (this.fallback as (input: unknown, error: ValidationError) => T)(data, error)
+      : this.fallback;
+
+    if (options.onCatch) {
+      options.onCatch({ path: toPathArray(options.path), input: data, error, value });
+    }
+
+    return ok(value);
+  }
+
+  /**
+   * Generate a partial schema with the same fallback
+   */
+  partial(): Schema<any> {
+    return new CatchSchema<any>(this.baseSchema.partial(), this.fallback);
+  }
+}
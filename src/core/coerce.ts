@@ -0,0 +1,99 @@
+/**
+ * Conversions applied by coercing schemas before validation
+ * Values that cannot be converted are returned as is, so that the schema
+ * reports them with its usual `invalid_type` issue.
+ */
+
+/**
+ * Boolean spellings accepted from query strings and forms
+ */
+const BOOLEAN_STRINGS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  '1': true,
+  '0': false,
+  on: true,
+  off: false,
+};
+
+/**
+ * Convert numbers, booleans, bigints and dates to strings
+ */
+export function coerceString(data: unknown): unknown {
+  if (data instanceof Date) {
+    return Number.isNaN(data.getTime()) ? data : data.toISOString();
+  }
+
+  if (typeof data === 'number' || typeof data === 'boolean' || typeof data === 'bigint') {
+    return String(data);
+  }
+
+  return data;
+}
+
+/**
+ * Convert numeric strings, booleans, bigints and dates to numbers
+ * Blank strings are not numbers, even though `Number('')` is 0.
+ */
+export function coerceNumber(data: unknown): unknown {
+  if (typeof data === 'string') {
+    const value = data.trim() === '' ? NaN : Number(data);
+    return Number.isNaN(value) ? data : value;
+  }
+
+  if (typeof data === 'boolean' || typeof data === 'bigint') {
+    return Number(data);
+  }
+
+  if (data instanceof Date) {
+    return data.getTime();
+  }
+
+  return data;
+}
+
+/**
+ * Convert "true"/"false"/"1"/"0"/"on"/"off" (case-insensitive) and 1/0 to booleans
+ */
+export function coerceBoolean(data: unknown): unknown {
+  if (typeof data === 'string') {
+    const key = data.trim().toLowerCase();
+    return Object.prototype.hasOwnProperty.call(BOOLEAN_STRINGS, key) ? BOOLEAN_STRINGS[key] : data;
+  }
+
+  if (data === 1 || data === 0) {
+    return data === 1;
+  }
+
+  return data;
+}
+
+/**
+ * Convert anything the Date constructor understands to a date
+ */
+export function coerceDate(data: unknown): unknown {
+  if (typeof data === 'string' || typeof data === 'number') {
+    return new Date(data);
+  }
+
+  return data;
+}
+
+/**
+ * Convert integer strings and numbers, and booleans, to bigints
+ */
+export function coerceBigInt(data: unknown): unknown {
+  if (typeof data === 'string' && /^\s*[-+]?\d+\s*$/.test(data)) {
+    return BigInt(data.trim());
+  }
+
+  if (typeof data === 'number' && Number.isInteger(data)) {
+    return BigInt(data);
+  }
+
+  if (typeof data === 'boolean') {
+    return BigInt(data);
+  }
+
+  return data;
+}
@@ -0,0 +1,153 @@
+import { Schema, ValidationOptions } from './schema';
+import { Result, ok } from './result';
+import { ValidationError, ValidationIssue } from './errors';
+import { PathSegment, toPathArray } from './path';
+import { CatchEvent } from './catch';
+
+/**
+ * Marker returned by compiled nodes when the input is invalid
+ */
+export const FAIL: unique symbol = Symbol('compile.fail');
+
+/**
+ * State shared by the compiled nodes of a single parse
+ * The path is a mutable stack so that no array is allocated on the success path.
+ */
+export interface CompileContext {
+  options: ValidationOptions;
+  path: PathSegment[];
+}
+
+/**
+ * A compiled validation node
+ * Returns the parsed value, or FAIL without building any issue.
+ */
+export type CompiledNode = (data: unknown, ctx: CompileContext) => unknown;
+
+/**
+ * Schema backed by a compiled validator
+ * Valid input is handled by the compiled fast path only. Invalid input is
+ * re-parsed by the source schema, so issues are exactly the interpreted ones.
+ */
+export class CompiledSchema<T> extends Schema<T> {
+  private readonly validator: CompiledNode;
+
+  constructor(private readonly source: Schema<T>) {
+    super();
+    this.validator = compileNode(source);
+  }
+
+  /**
+   * Internal parse method
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const warnings: ValidationIssue[] = [];
+    const caught: CatchEvent[] = [];
+    const ctx: CompileContext = {
+      options: { ...options, warnings, onCatch: options.onCatch && (event => caught.push(event)) },
+      path: toPathArray(options.path),
+    };
+    const value = this.validator(data, ctx);
+
+    // Warnings and caught failures are only reported once, by the run that succeeds
+    if (value !== FAIL) {
+      warnings.forEach(warning => this.report(warning, options));
+      caught.forEach(event => options.onCatch!(event));
+      return ok(value as T);
+    }
+
+    return this.source._parse(data, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   * Async validation is not compiled and always goes through the source schema
+   */
+  _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    return this.source._parseAsync(data, options);
+  }
+
+  /**
+   * Already compiled
+   */
+  compile(): CompiledSchema<T> {
+    return this;
+  }
+
+  /**
+   * Nested compiled schemas reuse their validator
+   */
+  _compile(): CompiledNode {
+    return this.validator;
+  }
+
+  /**
+   * Generate a compiled partial schema
+   */
+  partial(): Schema<any> {
+    return new CompiledSchema(this.source.partial());
+  }
+}
+
+/**
+ * Compile a schema into a specialized validator
+ */
+export function compile<T>(schema: Schema<T>): CompiledSchema<T> {
+  if (schema instanceof CompiledSchema) {
+    return schema;
+  }
+
+  return new CompiledSchema(schema);
+}
+
+/**
+ * Compile a schema node, falling back to interpretation for schemas without a fast path
+ */
+export function compileNode(schema: Schema<any>): CompiledNode {
+  return schema._compile() || interpret(schema);
+}
+
+/**
+ * Fallback node for custom, refined and other non-compilable schemas
+ */
+function interpret(schema: Schema<any>): CompiledNode {
+  return (data, ctx) => {
+    const result = schema._parse(data, { ...ctx.options, path: ctx.path.slice() });
+    return result.isOk() ? result.unwrap() : FAIL;
+  };
+}
+
+/**
+ * Compile a wrapper such as OptionalSchema
+ * Values matching `accepts` are returned as is, others go to the wrapped schema.
+ */
+export function compileWrapper(schema: Schema<any>, accepts: (data: unknown) => boolean): CompiledNode {
+  const node = compileNode(schema);
+
+  return (data, ctx) => accepts(data) ? data : node(data, ctx);
+}
+
+/**
+ * Compile the alternatives of a union, the first matching one wins
+ */
+export function compileAlternatives(schemas: Schema<any>[]): CompiledNode {
+  const options = schemas.map(compileNode);
+
+  return (data, ctx) => {
+    const warnings = ctx.options.warnings!;
+    const start = warnings.length;
+
+    for (let i = 0; i < options.length; i++) {
+      const parsed = options[i](data, ctx);
+
+      if (parsed !== FAIL) {
+        return parsed;
+      }
+
+      // Drop the warnings of the alternatives that did not match
+      warnings.length = start;
+    }
+
+    return FAIL;
+  };
+}
@@ -46,6 +46,36 @@ export class ContextualSchema<T> extends Schema<T> {
 
     return ok(validatedData);
   }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const baseResult = await this.baseSchema._parseAsync(data, options);
+
+    if (baseResult.isErr()) {
+      return baseResult;
+    }
+
+    let validatedData = baseResult.unwrap();
+
+    for (const rule of this.contextRules) {
+      const currentContext = options.context as ValidationContext | undefined;
+      if (matchesContext(currentContext, rule.context)) {
+        const ruleResult = rule.validateAsync
+          ? await rule.validateAsync(validatedData, options)
+          : rule.validate(validatedData, options);
+
+        if (ruleResult.isErr()) {
+          return ruleResult;
+        }
+
+        validatedData = ruleResult.unwrap();
+      }
+    }
+
+    return ok(validatedData);
+  }
   
   /**
    * Add a context-dependent validation rule
@@ -60,6 +90,10 @@ export class ContextualSchema<T> extends Schema<T> {
         const schema = validationFn(this.baseSchema as unknown as S);
         return schema._parse(data, options);
       },
+      validateAsync: (data, options) => {
+        const schema = validationFn(this.baseSchema as unknown as S);
+        return schema._parseAsync(data, options);
+      },
     };
 
     return new ContextualSchema<T>(
@@ -89,6 +123,7 @@ export class ContextualSchema<T> extends Schema<T> {
 interface ContextualRule<T> {
   context: ValidationContext;
   validate: (data: T, options: ValidationOptions) => Result<T, ValidationError>;
+  validateAsync?: (data: T, options: ValidationOptions) => Promise<Result<T, ValidationError>>;
 }
 
 /**
@@ -1,13 +1,62 @@
+import { Path, PathSegment, toPathArray } from './path';
+import { MessageOptions, formatMessage } from './messages';
+
+/**
+ * Severity of a validation issue
+ * Only errors make validation fail; warnings and infos are reported alongside the value.
+ */
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
 /**
  * Represents a validation issue at a specific path
  */
 export interface ValidationIssue {
-  path: string[];
+  path: PathSegment[];
   message: string;
   code: string;
   params?: Record<string, any>;
+
+  /**
+   * Issue severity, `error` when omitted
+   */
+  severity?: IssueSeverity;
 }
 
+/**
+ * Check whether an issue makes validation fail
+ */
+export function isBlockingIssue(issue: ValidationIssue): boolean {
+  return issue.severity === undefined || issue.severity === 'error';
+}
+
+/**
+ * Issues grouped by `ValidationError.flatten()`
+ */
+export interface FlattenedError<U = string> {
+  /**
+   * Issues about the value itself (empty path)
+   */
+  formErrors: U[];
+
+  /**
+   * Issues grouped by top-level property
+   */
+  fieldErrors: Record<string, U[]>;
+}
+
+/**
+ * Issue messages nested like the validated data, as built by `ValidationError.format()`
+ */
+export type FormattedError<T = any> = { _errors: string[] } & (
+  unknown extends T
+    ? { [key: string]: any }
+    : T extends readonly (infer U)[]
+      ? { [index: number]: FormattedError<U> }
+      : T extends object
+        ? { [K in keyof T]?: FormattedError<T[K]> }
+        : {}
+);
+
 /**
  * Validation error with details about validation failures
  */
@@ -52,9 +101,11 @@ export class ValidationError extends Error {
 
   /**
    * Get issues at a specific path
-   * @param path Path to filter issues by
+   * @param path Path to filter issues by. A dotted string matches numeric
+   * segments by their string form; an array matches segments strictly.
    */
-  getIssuesAtPath(path: string | string[]): ValidationIssue[] {
+  getIssuesAtPath(path: string | PathSegment[]): ValidationIssue[] {
+    const loose = typeof path === 'string';
     const pathArray = typeof path === 'string' ? path.split('.') : path;
     
     return this.issues.filter(issue => {
@@ -64,7 +115,11 @@ export class ValidationError extends Error {
       }
       
       for (let i = 0; i < pathArray.length; i++) {
-        if (issue.path[i] !== pathArray[i]) {
+        const matches = loose
+          ? String(issue.path[i]) === pathArray[i]
+          : issue.path[i] === pathArray[i];
+
+        if (!matches) {
           return false;
         }
       }
@@ -73,15 +128,60 @@ export class ValidationError extends Error {
     });
   }
 
+  /**
+   * Split issues into form-level and field-level messages
+   * @param mapIssue Maps each issue to the reported value (its message by default)
+   */
+  flatten<U = string>(mapIssue?: (issue: ValidationIssue) => U): FlattenedError<U> {
+    const map = mapIssue || ((issue: ValidationIssue) => issue.message as unknown as U);
+    // Without a prototype, fields such as `constructor` or `__proto__` are plain keys
+    const flattened: FlattenedError<U> = { formErrors: [], fieldErrors: Object.create(null) };
+
+    for (const issue of this.issues) {
+      if (issue.path.length === 0) {
+        flattened.formErrors.push(map(issue));
+        continue;
+      }
+
+      const key = String(issue.path[0]);
+      (flattened.fieldErrors[key] = flattened.fieldErrors[key] || []).push(map(issue));
+    }
+
+    return flattened;
+  }
+
+  /**
+   * Nest issue messages like the validated data
+   * Each level holds the messages of its own path in `_errors`.
+   */
+  format<T = any>(): FormattedError<T> {
+    // Nodes have no prototype, so that keys such as `__proto__` or `toString` are plain keys
+    const createNode = (): Record<string, any> => Object.assign(Object.create(null), { _errors: [] });
+    const root = createNode();
+
+    for (const issue of this.issues) {
+      let node = root;
+
+      for (const segment of issue.path) {
+        node[segment] = node[segment] || createNode();
+        node = node[segment];
+      }
+
+      node._errors.push(issue.message);
+    }
+
+    return root as FormattedError<T>;
+  }
+
   /**
    * Create a ValidationError from a simple error message
    * @param message Error message
    * @param path Optional path to the error
    */
-  static fromMessage(message: string, path: string[] = []): ValidationError {
+  static fromMessage(message: string, path: Path = []): ValidationError {
     return new ValidationError([
       {
-        path,
+        path: toPathArray(path),
         message,
         code: 'invalid_value',
       },
@@ -93,19 +193,43 @@ export class ValidationError extends Error {
    * @param expected Expected type
    * @param received Received value
    * @param path Optional path to the error
+   * @param options Locale and error map used for the message
    */
   static typeMismatch(
     expected: string,
     received: any,
-    path: string[] = []
+    path: Path = [],
+    options?: MessageOptions
+  ): ValidationError {
+    return ValidationError.fromCode(
+      'invalid_type',
+      path,
+      { expected, received: typeof received },
+      options
+    );
+  }
+
+  /**
+   * Create a ValidationError whose message comes from the message catalog
+   * @param code Issue code
+   * @param path Optional path to the error
+   * @param params Parameters of the issue, also used by the message
+   * @param options Locale and error map used for the message
+   */
+  static fromCode(
+    code: string,
+    path: Path = [],
+    params?: Record<string, any>,
+    options?: MessageOptions
   ): ValidationError {
-    const actualType = typeof received;
+    const issuePath = toPathArray(path);
+
     return new ValidationError([
       {
-        path,
-        message: `Expected ${expected}, received ${actualType}`,
-        code: 'invalid_type',
-        params: { expected, received: actualType },
+        path: issuePath,
+        message: formatMessage(code, params, options, issuePath),
+        code,
+        params,
       },
     ]);
   }
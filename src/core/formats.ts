@@ -0,0 +1,49 @@
+/**
+ * Custom string format, validated by `s.string().format(name)`
+ */
+export interface StringFormatDefinition {
+  /**
+   * Whether a (normalized) string has the format
+   */
+  validate: (value: string) => boolean;
+
+  /**
+   * Conversion applied before validation, e.g. removing spaces from an IBAN
+   */
+  normalize?: (value: string) => string;
+
+  /**
+   * `format` keyword used in JSON Schema, the format name by default
+   */
+  jsonSchemaFormat?: string;
+
+  /**
+   * Sample value, emitted as JSON Schema `examples`
+   */
+  example?: string;
+}
+
+const formats: Record<string, StringFormatDefinition> = {};
+
+/**
+ * Register a custom string format
+ * Registering a name again replaces its definition. Built-in formats
+ * (`email`, `uuid`, `ipv4`...) keep precedence over registered ones.
+ */
+export function registerFormat(name: string, definition: StringFormatDefinition): void {
+  formats[name] = definition;
+}
+
+/**
+ * Get a registered string format
+ */
+export function getFormat(name: string): StringFormatDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(formats, name) ? formats[name] : undefined;
+}
+
+/**
+ * Find the registered format emitted as a JSON Schema `format`
+ */
+export function findFormatByJsonSchema(jsonSchemaFormat: string): string | undefined {
+  return Object.keys(formats).find(name => (formats[name].jsonSchemaFormat || name) === jsonSchemaFormat);
+}
@@ -1,6 +1,9 @@
-import { Schema, ValidationOptions } from './schema';
+import { Schema, ValidationOptions, ChildParser, parseChild } from './schema';
 import { Result, ok, err } from './result';
 import { ValidationError, ValidationIssue } from './errors';
+import { appendPath, isRootPath } from './path';
+import { CompiledNode, FAIL, compileAlternatives } from './compile';
+import { ObjectSchema } from '../types/object';
 
 /**
  * Schema for union types
@@ -17,11 +20,13 @@ export class UnionSchema<T> extends Schema<T> {
     const path = options.path || [];
     const issues: ValidationIssue[] = [];
 
-    // Try each schema
+    // Try each schema, keeping only the warnings of the matching one
     for (const schema of this.schemas) {
-      const result = schema.safeParse(data, options);
+      const warnings: ValidationIssue[] = [];
+      const result = schema.safeParse(data, { ...options, warnings });
       
       if (result.isOk()) {
+        warnings.forEach(warning => this.report(warning, options));
         return result as Result<T, ValidationError>;
       }
       
@@ -31,16 +36,54 @@ export class UnionSchema<T> extends Schema<T> {
 
     // Return a combined error
     return err(new ValidationError([
-      {
+      this.localizedIssue(
+        'union.no_match',
+        options,
         path,
-        message: 'Value did not match any schema in union',
-        code: 'union.no_match',
-        params: { value: data }
-      },
+        { value: data }
+      ),
       ...issues
     ]));
   }
 
+  /**
+   * Parse and validate union data asynchronously
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const path = options.path || [];
+    const issues: ValidationIssue[] = [];
+
+    // Schemas are tried in order so the first match wins, as in `_parse`
+    for (const schema of this.schemas) {
+      const warnings: ValidationIssue[] = [];
+      const result = await schema._parseAsync(data, { ...options, warnings });
+
+      if (result.isOk()) {
+        warnings.forEach(warning => this.report(warning, options));
+        return result as Result<T, ValidationError>;
+      }
+
+      issues.push(...result.unwrapErr().issues);
+    }
+
+    return err(new ValidationError([
+      this.localizedIssue(
+        'union.no_match',
+        options,
+        path,
+        { value: data }
+      ),
+      ...issues
+    ]));
+  }
+
+  /**
+   * Compiled validator, trying the alternatives in order
+   */
+  _compile(): CompiledNode {
+    return compileAlternatives(this.schemas);
+  }
+
   /**
    * Generate a partial schema
    */
@@ -77,29 +120,37 @@ export class DiscriminatedUnionSchema<T, K extends keyof any> extends Schema<T>
     
     // Type check
     if (typeof data !== 'object' || data === null) {
-      return err(ValidationError.typeMismatch('object', data, path));
+      return err(ValidationError.typeMismatch('object', data, path, options));
     }
     
     const value = data as Record<string | number | symbol, unknown>;
     
     // Check for discriminator property
     if (!(this.discriminator in value)) {
-      return err(new ValidationError([{
+      return err(ValidationError.fromCode(
+        'union.discriminator_missing',
         path,
-        message: `Discriminator property '${String(this.discriminator)}' is missing`,
-        code: 'union.discriminator_missing',
-        params: { discriminator: this.discriminator }
-      }]));
+        { discriminator: this.discriminator },
+        options
+      ));
     }
     
     const discriminatorValue = value[this.discriminator];
+    const candidates = this._candidates(discriminatorValue);
     const issues: ValidationIssue[] = [];
     
-    // Try each schema
-    for (const schema of this.schemas) {
-      const result = schema.safeParse(data, options);
+    // A single option for this discriminator reports its own issues
+    if (candidates.length === 1) {
+      return candidates[0].safeParse(data, options) as Result<T, ValidationError>;
+    }
+    
+    // Try each schema, keeping only the warnings of the matching one
+    for (const schema of candidates) {
+      const warnings: ValidationIssue[] = [];
+      const result = schema.safeParse(data, { ...options, warnings });
       
       if (result.isOk()) {
+        warnings.forEach(warning => this.report(warning, options));
         return result as Result<T, ValidationError>;
       }
       
@@ -109,16 +160,102 @@ export class DiscriminatedUnionSchema<T, K extends keyof any> extends Schema<T>
     
     // Return a combined error
     return err(new ValidationError([
-      {
+      this.localizedIssue(
+        'union.no_discriminator_match',
+        options,
         path,
-        message: `No schema matched discriminator value '${String(discriminatorValue)}'`,
-        code: 'union.no_discriminator_match',
-        params: { discriminator: this.discriminator, value: discriminatorValue }
-      },
+        { discriminator: this.discriminator, value: discriminatorValue }
+      ),
       ...issues
     ]));
   }
 
+  /**
+   * Parse and validate discriminated union data asynchronously
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const path = options.path || [];
+
+    if (typeof data !== 'object' || data === null) {
+      return err(ValidationError.typeMismatch('object', data, path, options));
+    }
+
+    const value = data as Record<string | number | symbol, unknown>;
+
+    if (!(this.discriminator in value)) {
+      return err(ValidationError.fromCode(
+        'union.discriminator_missing',
+        path,
+        { discriminator: this.discriminator },
+        options
+      ));
+    }
+
+    const discriminatorValue = value[this.discriminator];
+    const candidates = this._candidates(discriminatorValue);
+    const issues: ValidationIssue[] = [];
+
+    if (candidates.length === 1) {
+      return candidates[0]._parseAsync(data, options);
+    }
+
+    for (const schema of candidates) {
+      const warnings: ValidationIssue[] = [];
+      const result = await schema._parseAsync(data, { ...options, warnings });
+
+      if (result.isOk()) {
+        warnings.forEach(warning => this.report(warning, options));
+        return result as Result<T, ValidationError>;
+      }
+
+      issues.push(...result.unwrapErr().issues);
+    }
+
+    return err(new ValidationError([
+      this.localizedIssue(
+        'union.no_discriminator_match',
+        options,
+        path,
+        { discriminator: this.discriminator, value: discriminatorValue }
+      ),
+      ...issues
+    ]));
+  }
+
+  /**
+   * Options whose discriminator property accepts the given value
+   * The discriminator may be any schema (literal, template literal, enum...);
+   * options that are not object schemas are always candidates.
+   */
+  private _candidates(discriminatorValue: unknown): Schema<any>[] {
+    return this.schemas.filter(schema => {
+      if (!(schema instanceof ObjectSchema)) {
+        return true;
+      }
+
+      const discriminatorSchema = schema.shape[this.discriminator as string];
+
+      return discriminatorSchema === undefined ||
+        discriminatorSchema.safeParse(discriminatorValue, { warnings: [] }).isOk();
+    });
+  }
+
+  /**
+   * Compiled validator, trying the alternatives of objects having the discriminator
+   */
+  _compile(): CompiledNode {
+    const discriminator = this.discriminator;
+    const alternatives = compileAlternatives(this.schemas);
+
+    return (data, ctx) => {
+      if (typeof data !== 'object' || data === null || !(discriminator in data)) {
+        return FAIL;
+      }
+
+      return alternatives(data, ctx);
+    };
+  }
+
   /**
    * Generate a partial schema
    */
@@ -189,6 +326,38 @@ export class IntersectionSchema<T> extends Schema<T> {
     return ok(result as T);
   }
 
+  /**
+   * Parse and validate intersection data asynchronously
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const issues: ValidationIssue[] = [];
+    const result: Record<string, any> = {};
+
+    for (const schema of this.schemas) {
+      const schemaResult = await schema._parseAsync(data, options);
+
+      if (schemaResult.isErr()) {
+        issues.push(...schemaResult.unwrapErr().issues);
+
+        if (options.abortEarly && issues.length > 0) {
+          return err(new ValidationError(issues));
+        }
+      } else {
+        const value = schemaResult.unwrap();
+
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+          Object.assign(result, value);
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      return err(new ValidationError(issues));
+    }
+
+    return ok(result as T);
+  }
+
   /**
    * Generate a partial schema
    */
@@ -221,20 +390,45 @@ export class LazySchema<T> extends Schema<T> {
    * Parse and validate against the lazily evaluated schema
    */
   _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const resolved = this._resolve(data, options);
+
+    if (resolved instanceof Schema) {
+      return resolved._parse(data, options);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Parse and validate asynchronously against the lazily evaluated schema
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const resolved = this._resolve(data, options);
+
+    if (resolved instanceof Schema) {
+      return resolved._parseAsync(data, options);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Evaluate the lazy schema, or short-circuit with a result when it cannot be evaluated
+   */
+  private _resolve(data: unknown, options: ValidationOptions): Schema<T> | Result<T, ValidationError> {
     // If `stripUnknown` is true and `data` is not undefined, we need to
     // evaluate the schema to strip unknown properties
     // from the data. This is important for recursive schemas where
     // we want to keep the original structure of the data.
     if (options.stripUnknown === true && 
         data !== undefined && 
-        options.path && 
-        options.path.length > 0) {
+        !isRootPath(options.path)) {
 
       if (!this._cachedSchema) {
         this._cachedSchema = this.schemaFn();
       }
       
-      return this._cachedSchema._parse(data, options);
+      return this._cachedSchema;
     }
 
     if (data === undefined && options.defaults === true) {
@@ -254,16 +448,16 @@ export class LazySchema<T> extends Schema<T> {
           return ok([] as unknown as T);
         }
 
-        return err(new ValidationError([{
-          path: options.path || [],
-          message: `Failed to evaluate lazy schema: ${e instanceof Error ? e.message : String(e)}`,
-          code: 'lazy.evaluation_error',
-          params: { error: String(e) }
-        }]));
+        return err(ValidationError.fromCode(
+          'lazy.evaluation_error',
+          options.path || [],
+          { error: e instanceof Error ? e.message : String(e) },
+          options
+        ));
       }
     }
 
-    return this._cachedSchema._parse(data, options);
+    return this._cachedSchema;
   }
 
   /**
@@ -309,24 +503,65 @@ export class ApiResponseSchema<T, E = any> extends Schema<{
     success: boolean;
     data?: T;
     error?: E;
+  }, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate API response data asynchronously
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<{
+    success: boolean;
+    data?: T;
+    error?: E;
+  }, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+
+    if (typeof data === 'object' && data !== null) {
+      const value = data as Record<string, unknown>;
+
+      if (value.success === true && 'data' in value) {
+        settled.set('data', await this.dataSchema._parseAsync(value.data, {
+          ...options,
+          path: appendPath(path, 'data')
+        }));
+      } else if (value.success === false && this.errorSchema && 'error' in value) {
+        settled.set('error', await this.errorSchema._parseAsync(value.error, {
+          ...options,
+          path: appendPath(path, 'error')
+        }));
+      }
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the response envelope, delegating the payload to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<{
+    success: boolean;
+    data?: T;
+    error?: E;
   }, ValidationError> {
     const path = options.path || [];
     
     // Type check
     if (typeof data !== 'object' || data === null) {
-      return err(ValidationError.typeMismatch('object', data, path));
+      return err(ValidationError.typeMismatch('object', data, path, options));
     }
     
     const value = data as Record<string, unknown>;
     
     // Check for success property
     if (typeof value.success !== 'boolean') {
-      return err(new ValidationError([{
-        path: [...path, 'success'],
-        message: 'API response must have a boolean success field',
-        code: 'api.missing_success',
-        params: { value }
-      }]));
+      return err(ValidationError.fromCode(
+        'api.missing_success',
+        appendPath(path, 'success'),
+        { value },
+        options
+      ));
     }
     
     const result: {
@@ -340,10 +575,10 @@ export class ApiResponseSchema<T, E = any> extends Schema<{
     // Validate data or error depending on success flag
     if (value.success) {
       if ('data' in value) {
-        const dataResult = this.dataSchema.safeParse(value.data, {
+        const dataResult = parse(this.dataSchema, value.data, {
           ...options,
-          path: [...path, 'data']
-        });
+          path: appendPath(path, 'data')
+        }, 'data');
         
         if (dataResult.isErr()) {
           return dataResult as Result<any, ValidationError>;
@@ -351,18 +586,13 @@ export class ApiResponseSchema<T, E = any> extends Schema<{
         
         result.data = dataResult.unwrap();
       } else {
-        return err(new ValidationError([{
-          path,
-          message: 'Successful API response must have a data field',
-          code: 'api.missing_data',
-          params: { value }
-        }]));
+        return err(ValidationError.fromCode('api.missing_data', path, { value }, options));
       }
     } else if (this.errorSchema && 'error' in value) {
-      const errorResult = this.errorSchema.safeParse(value.error, {
+      const errorResult = parse(this.errorSchema, value.error, {
         ...options,
-        path: [...path, 'error']
-      });
+        path: appendPath(path, 'error')
+      }, 'error');
       
       if (errorResult.isErr()) {
         return errorResult as Result<any, ValidationError>;
@@ -418,12 +648,54 @@ export class PaginatedSchema<T> extends Schema<{
     page: number;
     pageSize: number;
     pageCount: number;
+  }, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate paginated data asynchronously
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<{
+    items: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+    pageCount: number;
+  }, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+
+    if (typeof data === 'object' && data !== null) {
+      const items = (data as Record<string, unknown>).items;
+
+      if (Array.isArray(items)) {
+        await Promise.all(items.map(async (item, i) => {
+          settled.set(i.toString(), await this.itemSchema._parseAsync(item, {
+            ...options,
+            path: appendPath(appendPath(path, 'items'), i)
+          }));
+        }));
+      }
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the pagination envelope, delegating each item to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<{
+    items: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+    pageCount: number;
   }, ValidationError> {
     const path = options.path || [];
     
     // Type check
     if (typeof data !== 'object' || data === null) {
-      return err(ValidationError.typeMismatch('object', data, path));
+      return err(ValidationError.typeMismatch('object', data, path, options));
     }
     
     const value = data as Record<string, unknown>;
@@ -435,12 +707,12 @@ export class PaginatedSchema<T> extends Schema<{
     
     for (const field of requiredFields) {
       if (!(field in value)) {
-        issues.push({
-          path: [...path, field],
-          message: `Missing required pagination field: ${field}`,
-          code: 'pagination.missing_field',
-          params: { field }
-        });
+        issues.push(this.localizedIssue(
+          'pagination.missing_field',
+          options,
+          appendPath(path, field),
+          { field }
+        ));
       }
     }
     
@@ -450,22 +722,22 @@ export class PaginatedSchema<T> extends Schema<{
     
     // Validate items array
     if (!Array.isArray(value.items)) {
-      return err(new ValidationError([{
-        path: [...path, 'items'],
-        message: 'Pagination items must be an array',
-        code: 'pagination.items_not_array',
-        params: { value: value.items }
-      }]));
+      return err(ValidationError.fromCode(
+        'pagination.items_not_array',
+        appendPath(path, 'items'),
+        { value: value.items },
+        options
+      ));
     }
     
     // Validate each item
     const itemsResult: T[] = [];
     
     for (let i = 0; i < value.items.length; i++) {
-      const itemResult = this.itemSchema.safeParse(value.items[i], {
+      const itemResult = parse(this.itemSchema, value.items[i], {
         ...options,
-        path: [...path, 'items', i.toString()]
-      });
+        path: appendPath(appendPath(path, 'items'), i)
+      }, i.toString());
       
       if (itemResult.isErr()) {
         issues.push(...itemResult.unwrapErr().issues);
@@ -483,12 +755,12 @@ export class PaginatedSchema<T> extends Schema<{
     
     for (const field of numericFields) {
       if (typeof value[field] !== 'number') {
-        issues.push({
-          path: [...path, field],
-          message: `Pagination field ${field} must be a number`,
-          code: 'pagination.field_not_number',
-          params: { field, value: value[field] }
-        });
+        issues.push(this.localizedIssue(
+          'pagination.field_not_number',
+          options,
+          appendPath(path, field),
+          { field, value: value[field] }
+        ));
       } else {
         result[field] = value[field];
       }
@@ -535,11 +807,46 @@ export class RecordSchema<K extends string, V> extends Schema<Record<K, V>> {
    * Parse and validate record data
    */
   _parse(data: unknown, options: ValidationOptions): Result<Record<K, V>, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate record data asynchronously
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<Record<K, V>, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+      await Promise.all(Object.entries(data).map(async ([key, propValue]) => {
+        const keyResult = await this.keySchema._parseAsync(key, {
+          ...options,
+          path: appendPath(path, `[${key}]`)
+        });
+        settled.set(`key:${key}`, keyResult);
+
+        // Values behind an invalid key are never validated, as in `_parse`
+        if (keyResult.isOk()) {
+          settled.set(`value:${key}`, await this.valueSchema._parseAsync(propValue, {
+            ...options,
+            path: appendPath(path, key)
+          }));
+        }
+      }));
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the record shape, delegating keys and values to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<Record<K, V>, ValidationError> {
     const path = options.path || [];
     
     // Type check
     if (typeof data !== 'object' || data === null || Array.isArray(data)) {
-      return err(ValidationError.typeMismatch('object', data, path));
+      return err(ValidationError.typeMismatch('object', data, path, options));
     }
     
     const value = data as Record<string, unknown>;
@@ -549,10 +856,10 @@ export class RecordSchema<K extends string, V> extends Schema<Record<K, V>> {
     // Validate each key-value pair
     for (const [key, propValue] of Object.entries(value)) {
       // Validate key
-      const keyResult = this.keySchema.safeParse(key, {
+      const keyResult = parse(this.keySchema, key, {
         ...options,
-        path: [...path, `[${key}]`]
-      });
+        path: appendPath(path, `[${key}]`)
+      }, `key:${key}`);
       
       if (keyResult.isErr()) {
         issues.push(...keyResult.unwrapErr().issues);
@@ -565,10 +872,10 @@ export class RecordSchema<K extends string, V> extends Schema<Record<K, V>> {
       }
       
       // Validate value
-      const valueResult = this.valueSchema.safeParse(propValue, {
+      const valueResult = parse(this.valueSchema, propValue, {
         ...options,
-        path: [...path, key]
-      });
+        path: appendPath(path, key)
+      }, `value:${key}`);
       
       if (valueResult.isErr()) {
         issues.push(...valueResult.unwrapErr().issues);
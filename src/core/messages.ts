@@ -0,0 +1,222 @@
+import { PathSegment } from './path';
+import type { IssueSeverity } from './errors';
+import { en } from '../locales/en';
+import { fr } from '../locales/fr';
+
+/**
+ * Message for an issue code
+ * Strings may reference params as `{name}`; arrays are joined with ", ".
+ */
+export type MessageTemplate = string | ((params: Record<string, any>) => string);
+
+/**
+ * Messages of a locale, keyed by issue code
+ */
+export type MessageCatalog = Record<string, MessageTemplate>;
+
+/**
+ * Custom message of a built-in check
+ * Either a template, or an object overriding the message, adding params
+ * and/or downgrading the check to a non-blocking severity
+ */
+export type CheckMessage = MessageTemplate | {
+  message?: MessageTemplate;
+  params?: Record<string, any>;
+  severity?: IssueSeverity;
+};
+
+/**
+ * Message options accepted by the type factories
+ */
+export interface SchemaMessageOptions {
+  /**
+   * Message used when the value is missing
+   */
+  required_error?: MessageTemplate;
+
+  /**
+   * Message used when the value has the wrong type
+   */
+  invalid_type_error?: MessageTemplate;
+
+  /**
+   * Custom messages of the built-in checks, keyed by issue code
+   * The `required` key holds the message for missing values.
+   */
+  messages?: Record<string, CheckMessage>;
+}
+
+/**
+ * Issue description passed to error maps
+ */
+export interface ErrorMapIssue {
+  code: string;
+  params: Record<string, any>;
+  path: PathSegment[];
+}
+
+/**
+ * Custom message resolver
+ * Returning undefined falls back to the catalog message
+ */
+export type ErrorMap = (
+  issue: ErrorMapIssue,
+  context: { locale: string; defaultMessage: string }
+) => string | undefined;
+
+/**
+ * Options used to resolve a message
+ * Both default to the global configuration
+ */
+export interface MessageOptions {
+  locale?: string;
+  errorMap?: ErrorMap;
+}
+
+/**
+ * Locale used when no catalog defines a code
+ */
+const FALLBACK_LOCALE = 'en';
+
+const catalogs: Record<string, MessageCatalog> = { en, fr };
+let currentLocale = FALLBACK_LOCALE;
+let globalErrorMap: ErrorMap | undefined;
+
+/**
+ * Register a message catalog
+ * Messages are merged into an existing catalog of the same locale
+ */
+export function registerLocale(locale: string, catalog: MessageCatalog): void {
+  catalogs[locale] = { ...catalogs[locale], ...catalog };
+}
+
+/**
+ * Set the global locale
+ */
+export function setLocale(locale: string): void {
+  currentLocale = locale;
+}
+
+/**
+ * Get the global locale
+ */
+export function getLocale(): string {
+  return currentLocale;
+}
+
+/**
+ * Set the global error map (pass undefined to remove it)
+ */
+export function setErrorMap(errorMap: ErrorMap | undefined): void {
+  globalErrorMap = errorMap;
+}
+
+/**
+ * Resolve the message of an issue code
+ * Order: error map, catalog of the locale, base language (`fr` for `fr-CA`), English catalog.
+ */
+export function formatMessage(
+  code: string,
+  params: Record<string, any> = {},
+  options: MessageOptions = {},
+  path: PathSegment[] = []
+): string {
+  const locale = options.locale || currentLocale;
+  const defaultMessage = render(lookup(code, locale), code, params);
+  const errorMap = options.errorMap || globalErrorMap;
+
+  if (errorMap) {
+    const message = errorMap({ code, params, path }, { locale, defaultMessage });
+
+    if (message !== undefined) {
+      return message;
+    }
+  }
+
+  return defaultMessage;
+}
+
+/**
+ * Resolve the message of an issue, giving precedence to a custom message
+ * Custom messages may reference the issue params and bypass the error map.
+ */
+export function resolveMessage(
+  code: string,
+  params: Record<string, any> | undefined,
+  options: MessageOptions,
+  path: PathSegment[],
+  custom?: CheckMessage
+): { message: string; params?: Record<string, any>; severity?: IssueSeverity } {
+  if (custom === undefined) {
+    return { message: formatMessage(code, params, options, path), params };
+  }
+
+  const template = typeof custom === 'object' ? custom.message : custom;
+  const merged = typeof custom === 'object' && custom.params
+    ? { ...params, ...custom.params }
+    : params;
+
+  return {
+    message: template !== undefined
+      ? render(template, code, merged || {})
+      : formatMessage(code, merged, options, path),
+    params: merged,
+    severity: typeof custom === 'object' ? custom.severity : undefined,
+  };
+}
+
+/**
+ * Collect the custom messages declared by type factory options
+ */
+export function collectMessages(options: SchemaMessageOptions): Record<string, CheckMessage> {
+  const messages: Record<string, CheckMessage> = { ...options.messages };
+
+  if (options.required_error !== undefined) {
+    messages.required = options.required_error;
+  }
+
+  if (options.invalid_type_error !== undefined) {
+    messages.invalid_type = options.invalid_type_error;
+  }
+
+  return messages;
+}
+
+/**
+ * Find the template of a code for a locale
+ */
+function lookup(code: string, locale: string): MessageTemplate | undefined {
+  const language = locale.split('-')[0];
+
+  for (const candidate of [locale, language, FALLBACK_LOCALE]) {
+    const catalog = catalogs[candidate];
+
+    if (catalog && code in catalog) {
+      return catalog[code];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Render a template with its params
+ */
+function render(template: MessageTemplate | undefined, code: string, params: Record<string, any>): string {
+  if (template === undefined) {
+    return code;
+  }
+
+  if (typeof template === 'function') {
+    return template(params);
+  }
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(name in params)) {
+      return match;
+    }
+
+    const value = params[name];
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
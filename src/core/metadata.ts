@@ -1,6 +1,8 @@
 import { Schema, ValidationOptions } from './schema';
 import { Result } from './result';
 import { ValidationError } from './errors';
+import { Path, appendPath } from './path';
+import { CompiledNode, compileNode } from './compile';
 
 /**
  * Schema metadata
@@ -48,11 +50,72 @@ export class MetadataSchema<T> extends Schema<T> {
     super();
   }
 
+  /**
+   * Optional when the wrapped schema is
+   */
+  isOptional(): boolean {
+    return this.baseSchema.isOptional();
+  }
+
   /**
    * Internal parse method
    */
   _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
-    return this.baseSchema._parse(data, options);
+    const result = this.baseSchema._parse(data, options);
+
+    if (result.isOk()) {
+      this.reportDeprecations(data, options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const result = await this.baseSchema._parseAsync(data, options);
+
+    if (result.isOk()) {
+      this.reportDeprecations(data, options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Report a warning for a deprecated value, or for each deprecated field present
+   */
+  private reportDeprecations(data: unknown, options: ValidationOptions): void {
+    const { deprecated, deprecationMessage } = this.metadata;
+    const path = options.path || [];
+
+    if (deprecated === true) {
+      if (data !== undefined) {
+        this.reportDeprecation(options, path, undefined, deprecationMessage);
+      }
+    } else if (Array.isArray(deprecated) && typeof data === 'object' && data !== null) {
+      for (const field of deprecated) {
+        if (field in data) {
+          this.reportDeprecation(options, appendPath(path, field), { field }, deprecationMessage);
+        }
+      }
+    }
+  }
+
+  /**
+   * Report a single `deprecated` warning
+   */
+  private reportDeprecation(
+    options: ValidationOptions,
+    path: Path,
+    params?: Record<string, any>,
+    message?: string
+  ): void {
+    this.report({
+      ...this.localizedIssue('deprecated', options, path, params, message),
+      severity: 'warning',
+    }, options);
   }
   
   /**
@@ -127,6 +190,14 @@ export class MetadataSchema<T> extends Schema<T> {
     );
   }
   
+  /**
+   * Compiled validator of the wrapped schema
+   * Deprecations are reported by `_parse`, so deprecated schemas are interpreted.
+   */
+  _compile(): CompiledNode | undefined {
+    return this.metadata.deprecated ? undefined : compileNode(this.baseSchema);
+  }
+
   /**
    * Generate a partial schema
    */
@@ -0,0 +1,197 @@
+import { Schema, ValidationOptions } from './schema';
+import { Result, ok } from './result';
+import { ValidationError } from './errors';
+import { CompiledNode, compileWrapper } from './compile';
+
+/**
+ * Schema also accepting `undefined`
+ * As an object property, the property may be missing.
+ */
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(private readonly baseSchema: Schema<T>) {
+    super();
+  }
+
+  /**
+   * The wrapped schema
+   */
+  unwrap(): Schema<T> {
+    return this.baseSchema;
+  }
+
+  /**
+   * Already optional
+   */
+  optional(): OptionalSchema<T> {
+    return this;
+  }
+
+  /**
+   * Properties with this schema may be missing
+   */
+  isOptional(): boolean {
+    return true;
+  }
+
+  /**
+   * Internal parse method
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T | undefined, ValidationError> {
+    if (data === undefined) {
+      return ok(undefined);
+    }
+
+    return this.baseSchema._parse(data, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T | undefined, ValidationError>> {
+    if (data === undefined) {
+      return ok(undefined);
+    }
+
+    return this.baseSchema._parseAsync(data, options);
+  }
+
+  /**
+   * Compiled validator of the wrapped schema
+   */
+  _compile(): CompiledNode {
+    return compileWrapper(this.baseSchema, data => data === undefined);
+  }
+
+  /**
+   * Generate a partial schema, still optional
+   */
+  partial(): Schema<any> {
+    return this.baseSchema.partial().optional();
+  }
+}
+
+/**
+ * Schema also accepting `null`
+ */
+export class NullableSchema<T> extends Schema<T | null> {
+  constructor(private readonly baseSchema: Schema<T>) {
+    super();
+  }
+
+  /**
+   * The wrapped schema
+   */
+  unwrap(): Schema<T> {
+    return this.baseSchema;
+  }
+
+  /**
+   * Already nullable
+   */
+  nullable(): NullableSchema<T> {
+    return this;
+  }
+
+  /**
+   * Internal parse method
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T | null, ValidationError> {
+    if (data === null) {
+      return ok(null);
+    }
+
+    return this.baseSchema._parse(data, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T | null, ValidationError>> {
+    if (data === null) {
+      return ok(null);
+    }
+
+    return this.baseSchema._parseAsync(data, options);
+  }
+
+  /**
+   * Compiled validator of the wrapped schema
+   */
+  _compile(): CompiledNode {
+    return compileWrapper(this.baseSchema, data => data === null);
+  }
+
+  /**
+   * Generate a partial schema, still nullable
+   */
+  partial(): Schema<any> {
+    return this.baseSchema.partial().nullable();
+  }
+}
+
+/**
+ * Schema also accepting `null` and `undefined`
+ * As an object property, the property may be missing.
+ */
+export class NullishSchema<T> extends Schema<T | null | undefined> {
+  constructor(private readonly baseSchema: Schema<T>) {
+    super();
+  }
+
+  /**
+   * The wrapped schema
+   */
+  unwrap(): Schema<T> {
+    return this.baseSchema;
+  }
+
+  /**
+   * Properties with this schema may be missing
+   */
+  isOptional(): boolean {
+    return true;
+  }
+
+  /**
+   * Already nullish
+   */
+  nullish(): NullishSchema<T> {
+    return this;
+  }
+
+  /**
+   * Internal parse method
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T | null | undefined, ValidationError> {
+    if (data === null || data === undefined) {
+      return ok(data);
+    }
+
+    return this.baseSchema._parse(data, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T | null | undefined, ValidationError>> {
+    if (data === null || data === undefined) {
+      return ok(data);
+    }
+
+    return this.baseSchema._parseAsync(data, options);
+  }
+
+  /**
+   * Compiled validator of the wrapped schema
+   */
+  _compile(): CompiledNode {
+    return compileWrapper(this.baseSchema, data => data === null || data === undefined);
+  }
+
+  /**
+   * Generate a partial schema, still nullish
+   */
+  partial(): Schema<any> {
+    return this.baseSchema.partial().nullish();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * A single path segment
+ * Array indices are numbers, so `items.0` and a key named "0" stay distinguishable
+ */
+export type PathSegment = string | number;
+
+/**
+ * Node of a linked validation path
+ * Composite schemas extend the path of their parent without copying it;
+ * segments are only collected into an array when an issue is created.
+ */
+export class PathNode {
+  constructor(
+    readonly parent: Path | undefined,
+    readonly segment: PathSegment
+  ) {}
+
+  /**
+   * Materialize the path as an array of segments
+   */
+  toArray(): PathSegment[] {
+    const segments: PathSegment[] = [];
+    let current: Path | undefined = this;
+
+    while (current instanceof PathNode) {
+      segments.push(current.segment);
+      current = current.parent;
+    }
+
+    segments.reverse();
+
+    return current ? [...current, ...segments] : segments;
+  }
+}
+
+/**
+ * Validation path, either materialized or linked
+ */
+export type Path = ReadonlyArray<PathSegment> | PathNode;
+
+/**
+ * Extend a path with a segment without copying it
+ */
+export function appendPath(path: Path | undefined, segment: PathSegment): PathNode {
+  return new PathNode(path, segment);
+}
+
+/**
+ * Materialize a path as a fresh array of segments
+ */
+export function toPathArray(path: Path | undefined): PathSegment[] {
+  if (path === undefined) {
+    return [];
+  }
+
+  return path instanceof PathNode ? path.toArray() : [...path];
+}
+
+/**
+ * Check whether a path points at the root value
+ */
+export function isRootPath(path: Path | undefined): boolean {
+  return path === undefined || (!(path instanceof PathNode) && path.length === 0);
+}
@@ -1,6 +1,8 @@
 import { Schema, ValidationOptions } from './schema';
 import { Result, ok, err } from './result';
 import { ValidationError } from './errors';
+import { toPathArray } from './path';
+import { formatMessage } from './messages';
 
 /**
  * User role or permission
@@ -54,8 +56,8 @@ export class RestrictedSchema<T> extends Schema<T> {
     if (!this.checkPermission(userRoles, options)) {
       return err(new ValidationError([
         {
-          path: options.path || [],
-          message: this.getAccessDeniedMessage(),
+          path: toPathArray(options.path),
+          message: this.getAccessDeniedMessage(options),
           code: 'permission.denied',
         },
       ]));
@@ -64,6 +66,23 @@ export class RestrictedSchema<T> extends Schema<T> {
     // If user has permission, use base schema
     return this.baseSchema._parse(data, options);
   }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    if (!this.checkPermission(this.getUserRoles(options), options)) {
+      return err(new ValidationError([
+        {
+          path: toPathArray(options.path),
+          message: this.getAccessDeniedMessage(options),
+          code: 'permission.denied',
+        },
+      ]));
+    }
+
+    return this.baseSchema._parseAsync(data, options);
+  }
   
   /**
    * Get user roles from context
@@ -156,14 +175,14 @@ export class RestrictedSchema<T> extends Schema<T> {
   /**
    * Get access denied message
    */
-  private getAccessDeniedMessage(): string {
+  private getAccessDeniedMessage(options: ValidationOptions): string {
     const requirement = this.permissionRequirement;
     
     if (typeof requirement === 'object' && !Array.isArray(requirement) && requirement.message) {
       return requirement.message;
     }
     
-    return 'Access denied: insufficient permissions';
+    return formatMessage('permission.denied', {}, options, toPathArray(options.path));
   }
   
   /**
@@ -338,6 +357,19 @@ export class PermissionAwareSchema<T extends Record<string, any>> extends Schema
     
     return ok(filteredData as T);
   }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const baseResult = await this.baseSchema._parseAsync(data, options);
+
+    if (!options.context || baseResult.isErr()) {
+      return baseResult;
+    }
+
+    return ok(this.applyPermissions(baseResult.unwrap(), options.context) as T);
+  }
   
   /**
    * Generate a partial schema
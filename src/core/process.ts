@@ -20,6 +20,14 @@ export class PreprocessSchema<T> extends Schema<T> {
     const processedData = this.preprocessor(data);
     return this.baseSchema._parse(processedData, options);
   }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const processedData = this.preprocessor(data);
+    return this.baseSchema._parseAsync(processedData, options);
+  }
   
   /**
    * Generate a partial schema
@@ -47,12 +55,34 @@ export class PostprocessSchema<T, U> extends Schema<U> {
     super();
   }
 
+  /**
+   * Optional when the wrapped schema is
+   */
+  isOptional(): boolean {
+    return this.baseSchema.isOptional();
+  }
+
   /**
    * Internal parse method
    */
   _parse(data: unknown, options: ValidationOptions): Result<U, ValidationError> {
-    const baseResult = this.baseSchema._parse(data, options);
+    return this._applyPostprocess(this.baseSchema._parse(data, options), options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<U, ValidationError>> {
+    return this._applyPostprocess(await this.baseSchema._parseAsync(data, options), options);
+  }
 
+  /**
+   * Apply the postprocessor to a base validation result
+   */
+  private _applyPostprocess(
+    baseResult: Result<T, ValidationError>,
+    options: ValidationOptions
+  ): Result<U, ValidationError> {
     if (baseResult.isErr()) {
       return err(baseResult.unwrapErr());
     }
@@ -62,13 +92,12 @@ export class PostprocessSchema<T, U> extends Schema<U> {
       const processedData = this.postprocessor(baseResult.unwrap());
       return ok(processedData);
     } catch (error) {
-      return err(new ValidationError([
-        {
-          path: options.path || [],
-          message: `Postprocessing failed: ${error instanceof Error ? error.message : String(error)}`,
-          code: 'process.postprocess_failed',
-        }
-      ]));
+      return err(ValidationError.fromCode(
+        'process.postprocess_failed',
+        options.path || [],
+        { error: error instanceof Error ? error.message : String(error) },
+        options
+      ));
     }
   }
   
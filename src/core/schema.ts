@@ -1,5 +1,7 @@
 import { Result, ok, err } from './result';
-import { ValidationError, ValidationIssue } from './errors';
+import { IssueSeverity, ValidationError, ValidationIssue, isBlockingIssue } from './errors';
+import { Path, PathSegment, toPathArray } from './path';
+import { CheckMessage, ErrorMap, MessageTemplate, resolveMessage } from './messages';
 
 declare module './schema' {
   interface Schema<T> {
@@ -13,8 +15,9 @@ declare module './schema' {
 export interface ValidationOptions {
   /**
    * Path prefix for validation errors
+   * Composite schemas extend it with linked path nodes
    */
-  path?: string[];
+  path?: Path;
   
   /**
    * Whether to abort validation on first error
@@ -31,13 +34,128 @@ export interface ValidationOptions {
    */
   defaults?: boolean;
 
+  /**
+   * Whether primitive schemas convert their input before validation, as `s.coerce` does
+   * Meant for string-only sources such as query strings and form posts.
+   */
+  coerce?: boolean;
+
   /**
    * Current validation context
    * Used for context-aware validation rules
    */
   context?: any;
+
+  /**
+   * Maximum number of async validators running at the same time
+   * Only used by parseAsync / safeParseAsync (unlimited by default)
+   */
+  concurrency?: number;
+
+  /**
+   * Signal that cancels outstanding async validators when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout in milliseconds applied to each async validator
+   */
+  timeout?: number;
+
+  /**
+   * Scheduler shared by the async validators of the current parse run
+   * Created by parseAsync / safeParseAsync from `concurrency`, `signal` and `timeout`
+   */
+  scheduler?: import('./async').AsyncScheduler;
+
+  /**
+   * Locale of the issue messages (defaults to the global locale)
+   */
+  locale?: string;
+
+  /**
+   * Custom message resolver, takes precedence over the message catalogs
+   */
+  errorMap?: ErrorMap;
+
+  /**
+   * Collector for the non-blocking issues (warnings, infos) of the current parse run
+   * Created by safeParse / safeParseAsync
+   */
+  warnings?: ValidationIssue[];
+
+  /**
+   * Called when a `catch` schema replaces a failed value with its fallback
+   */
+  onCatch?: (event: import('./catch').CatchEvent) => void;
+}
+
+/**
+ * Result of safeParse, with the non-blocking issues reported during the parse
+ */
+export type ParseResult<T> = Result<T, ValidationError> & {
+  readonly warnings: ValidationIssue[];
+};
+
+/**
+ * Options for refinements
+ */
+export interface RefineOptions {
+  /**
+   * Severity of the issue reported when the refinement fails
+   * Non-error refinements report a warning and keep the value valid.
+   */
+  severity?: IssueSeverity;
+}
+
+/**
+ * Issue reported by a superRefine callback
+ */
+export interface RefinementIssue {
+  /**
+   * Path relative to the refined value (the value itself when omitted)
+   */
+  path?: PathSegment[];
+
+  /**
+   * Issue code, `custom` when omitted
+   */
+  code?: string;
+
+  /**
+   * Message template, resolved from the catalogs by code when omitted
+   */
+  message?: MessageTemplate;
+
+  params?: Record<string, any>;
+  severity?: IssueSeverity;
+
+  /**
+   * Skip the remaining refinements
+   */
+  fatal?: boolean;
 }
 
+/**
+ * Context passed to superRefine callbacks
+ */
+export interface RefinementContext {
+  /**
+   * Path of the refined value
+   */
+  readonly path: PathSegment[];
+
+  /**
+   * Report an issue, relative to the refined value
+   */
+  addIssue(issue: RefinementIssue): void;
+}
+
+/**
+ * Refinement with access to the refinement context
+ */
+export type SuperRefinement<T> = (value: T, ctx: RefinementContext) => void | Promise<void>;
+
 /**
  * Default validation options
  */
@@ -48,6 +166,47 @@ export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
   defaults: true,
 };
 
+/**
+ * Parses a child value on behalf of a composite schema
+ * Composites share their assembly logic between `_parse` and `_parseAsync`:
+ * the async path settles the children first and replays them through this callback.
+ */
+export type ChildParser = (
+  schema: Schema<any>,
+  data: unknown,
+  options: ValidationOptions,
+  key: string
+) => Result<any, ValidationError>;
+
+/**
+ * Child parser used by the synchronous path
+ */
+export const parseChild: ChildParser = (schema, data, options) => schema.safeParse(data, options);
+
+/**
+ * Attach the warnings collected since `start` to a result
+ */
+function withWarnings<T>(
+  result: Result<T, ValidationError>,
+  warnings: ValidationIssue[],
+  start: number
+): ParseResult<T> {
+  return Object.assign(result, { warnings: warnings.slice(start) });
+}
+
+/**
+ * Whether a refinement returned a promise, which only the async path can await
+ * The promise is settled here so that a rejection is not left unhandled.
+ */
+function isPending(outcome: unknown): boolean {
+  if (outcome === null || typeof outcome !== 'object' || typeof (outcome as any).then !== 'function') {
+    return false;
+  }
+
+  Promise.resolve(outcome).catch(() => undefined);
+  return true;
+}
+
 /**
  * Base schema interface for all schema types
  */
@@ -65,17 +224,27 @@ export interface SchemaType<T> {
   /**
    * Parse input data and safely handle errors
    */
-  safeParse(data: unknown, options?: ValidationOptions): Result<T, ValidationError>;
+  safeParse(data: unknown, options?: ValidationOptions): ParseResult<T>;
   
   /**
    * Parse and validate input data asynchronously
    */
   parseAsync(data: unknown, options?: ValidationOptions): Promise<T>;
+
+  /**
+   * Parse input data asynchronously and safely handle errors
+   */
+  safeParseAsync(data: unknown, options?: ValidationOptions): Promise<ParseResult<T>>;
   
   /**
    * Internal parse method (exposé dans l'interface pour permettre l'accès entre les classes dérivées)
    */
   _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError>;
+
+  /**
+   * Internal asynchronous parse method
+   */
+  _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>>;
   
   /**
    * Generate a partial schema
@@ -83,17 +252,34 @@ export interface SchemaType<T> {
   partial(): Schema<any>;
 }
 
+/**
+ * Type of the values produced by a schema
+ * Brands are kept, including in object properties, array items and union members.
+ */
+export type InferType<S extends SchemaType<any>> = S extends SchemaType<infer T> ? T : never;
+
+/**
+ * Nominal type: `T` tagged with the brand `B`
+ * Values of different brands are not assignable to each other.
+ */
+export type Brand<T, B extends string | symbol> = T & { __brand: B };
+
 /**
  * Interface for partial schema that preserves methods like required
  */
 export interface PartialSchema<T> extends Schema<Partial<T>> {
-  required<K extends keyof T>(keys: K | K[]): PartialSchema<T>;
+  required<K extends keyof T>(keys?: K | K[]): PartialSchema<T>;
 }
 
 /**
  * Base class for all schema implementations
  */
 export abstract class Schema<T> implements SchemaType<T> {
+  /**
+   * Custom messages of the built-in checks, keyed by issue code
+   */
+  protected _messages: Record<string, CheckMessage> = {};
+
   /**
    * Parse and validate input data
    */
@@ -125,9 +311,12 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * Parse input data and safely handle errors
    */
-  safeParse(data: unknown, options: ValidationOptions = {}): Result<T, ValidationError> {
+  safeParse(data: unknown, options: ValidationOptions = {}): ParseResult<T> {
     const mergedOptions = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
-    return this._parse(data, mergedOptions);
+    const warnings = mergedOptions.warnings || (mergedOptions.warnings = []);
+    const start = warnings.length;
+
+    return withWarnings(this._parse(data, mergedOptions), warnings, start);
   }
 
 
@@ -136,11 +325,21 @@ export abstract class Schema<T> implements SchemaType<T> {
    */
   refine(
     refinement: (value: T) => boolean | Promise<boolean>,
-    message: string | ((value: T) => string)
+    message: string | ((value: T) => string),
+    options: RefineOptions = {}
   ): Schema<T> {
-    return new RefinedSchema<T>(this, refinement, message);
+    return new RefinedSchema<T>(this, refinement, message, options.severity);
   }
   
+  /**
+   * Refine the schema with a callback that can report any number of issues
+   * Issues may target nested paths (cross-field checks); a `fatal` issue
+   * skips the refinements chained after it.
+   */
+  superRefine(refinement: SuperRefinement<T>): Schema<T> {
+    return new SuperRefinedSchema<T>(this, [refinement]);
+  }
+
   /**
    * Add context-dependent validation
    */
@@ -153,6 +352,8 @@ export abstract class Schema<T> implements SchemaType<T> {
         context,
         validate: (data: T, options: ValidationOptions) =>
           validationFn(this as unknown as S)._parse(data, options),
+        validateAsync: (data: T, options: ValidationOptions) =>
+          validationFn(this as unknown as S)._parseAsync(data, options),
       },
     ]);
   }
@@ -161,31 +362,10 @@ export abstract class Schema<T> implements SchemaType<T> {
    * Transform the output of this schema
    */
   transform<U>(transformer: (value: T) => U): Schema<U> {
-    const baseSchema = this;
-    return new CustomSchema<U>((data: unknown): Result<U, ValidationError> => {
-      // First validate using base schema
-      const result = baseSchema._parse(data, { path: [] });
-
-      if (result.isErr()) {
-        return err(result.unwrapErr());
-      }
-
-      // Apply transformation
-      const value = result.unwrap();
-      const transformed = transformer(value);
-
-      // Handle NaN for number transformations
-      if (typeof transformed === 'number' && isNaN(transformed)) {
-        return err(new ValidationError([{
-          path: [],
-          message: `Failed to transform value "${String(data)}" to a valid number`,
-          code: 'transform.invalid_number',
-          params: { value: data }
-        }]));
-      }
-
-      return ok(transformed);
-    });
+    return new (require('./transform').TransformSchema)(
+      this,
+      transformer
+    );
   }
     
   /**
@@ -242,7 +422,7 @@ export abstract class Schema<T> implements SchemaType<T> {
    * Add minimum validation (generic method)
    * Note: This is a convenience method that should be overridden by specific schema types
    */
-  min(value: number): Schema<T> {
+  min(value: number, message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -251,7 +431,7 @@ export abstract class Schema<T> implements SchemaType<T> {
    * Add maximum validation (generic method)
    * Note: This is a convenience method that should be overridden by specific schema types
    */
-  max(value: number): Schema<T> {
+  max(value: number, message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -276,7 +456,7 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * Regex validation (generic method)
    */
-  regex(pattern: RegExp): Schema<T> {
+  regex(pattern: RegExp, message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -284,7 +464,7 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * Email validation (generic method)
    */
-  email(): Schema<T> {
+  email(message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -292,7 +472,7 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * UUID validation (generic method)
    */
-  uuid(): Schema<T> {
+  uuid(message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -300,7 +480,7 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * Integer validation (generic method)
    */
-  int(): Schema<T> {
+  int(message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -308,7 +488,7 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * Positive number validation (generic method)
    */
-  positive(): Schema<T> {
+  positive(message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
@@ -316,17 +496,46 @@ export abstract class Schema<T> implements SchemaType<T> {
   /**
    * Negative number validation (generic method)
    */
-  negative(): Schema<T> {
+  negative(message?: CheckMessage): Schema<T> {
     // Default implementation that will be overridden
     return this;
   }
 
   /**
-   * Optional validation (generic method)
+   * Also accept `undefined`
    */
-  optional(): Schema<T | undefined> {
-    // Default implementation that will be overridden
-    return this;
+  optional(): import('./optional').OptionalSchema<T> {
+    return new (require('./optional').OptionalSchema)(this);
+  }
+
+  /**
+   * Also accept `null`
+   */
+  nullable(): import('./optional').NullableSchema<T> {
+    return new (require('./optional').NullableSchema)(this);
+  }
+
+  /**
+   * Also accept `null` and `undefined`
+   */
+  nullish(): import('./optional').NullishSchema<T> {
+    return new (require('./optional').NullishSchema)(this);
+  }
+
+  /**
+   * Tag the inferred type with a brand, for nominal typing
+   * Only the type changes, validation is the same.
+   */
+  brand<B extends string | symbol>(): Schema<Brand<T, B>> {
+    return this as unknown as Schema<Brand<T, B>>;
+  }
+
+  /**
+   * Replace the value with a fallback when validation fails
+   * A fallback function receives the failed input and the validation error.
+   */
+  catch(fallback: import('./catch').CatchFallback<T>): import('./catch').CatchSchema<T> {
+    return new (require('./catch').CatchSchema)(this, fallback);
   }
 
   /**
@@ -340,8 +549,7 @@ export abstract class Schema<T> implements SchemaType<T> {
    * Parse and validate input data asynchronously
    */
   async parseAsync(data: unknown, options: ValidationOptions = {}): Promise<T> {
-    const mergedOptions = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
-    const result = this._parse(data, mergedOptions);
+    const result = await this.safeParseAsync(data, options);
 
     if (result.isOk()) {
       return result.unwrap();
@@ -350,20 +558,58 @@ export abstract class Schema<T> implements SchemaType<T> {
     throw result.unwrapErr();
   }
 
+  /**
+   * Parse input data asynchronously and safely handle errors
+   */
+  async safeParseAsync(data: unknown, options: ValidationOptions = {}): Promise<ParseResult<T>> {
+    const mergedOptions = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
+    const warnings = mergedOptions.warnings || (mergedOptions.warnings = []);
+    const start = warnings.length;
+
+    if (!mergedOptions.scheduler) {
+      mergedOptions.scheduler = new (require('./async').AsyncScheduler)(mergedOptions);
+    }
+
+    return withWarnings(await this._parseAsync(data, mergedOptions), warnings, start);
+  }
+
   /**
    * Add asynchronous validation
    */
   asyncValidate(
-    validator: (value: T) => Promise<boolean | Result<T, ValidationError> | void>,
+    validator: (
+      value: T,
+      context: import('./async').AsyncValidatorContext
+    ) => Promise<boolean | Result<T, ValidationError> | void>,
     errorMessage?: string
   ): Schema<T> {
     return (require('./async').asyncValidate)(this, validator, errorMessage);
   }
+
+  /**
+   * Add batched asynchronous validation
+   * Values hitting this validator during one parseAsync run are checked in a single call
+   */
+  asyncValidateBatch(
+    validator: import('./async').AsyncBatchValidatorFn<T>,
+    errorMessage?: string
+  ): Schema<T> {
+    return (require('./async').asyncValidateBatch)(this, validator, errorMessage);
+  }
   
   /**
    * Internal parse method to be implemented by schema types
    */
   abstract _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError>;
+
+  /**
+   * Internal asynchronous parse method
+   * Leaf schemas have nothing to await and fall back to `_parse`; composite
+   * schemas override this so that async validators of their children run.
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    return this._parse(data, options);
+  }
   
   /**
    * Create a validation issue for the current schema
@@ -371,17 +617,106 @@ export abstract class Schema<T> implements SchemaType<T> {
   protected issue(
     message: string,
     code: string,
-    path: string[] = [],
+    path: Path = [],
     params?: Record<string, any>
   ): ValidationIssue {
     return {
-      path,
+      path: toPathArray(path),
       message,
       code,
       params,
     };
   }
   
+  /**
+   * Create a validation issue whose message comes from the message catalog
+   * A custom message declared on the schema for the code takes precedence.
+   */
+  protected localizedIssue(
+    code: string,
+    options: ValidationOptions,
+    path: Path = [],
+    params?: Record<string, any>,
+    custom: CheckMessage | undefined = this._messages[code]
+  ): ValidationIssue {
+    const issuePath = toPathArray(path);
+    const resolved = resolveMessage(code, params, options, issuePath, custom);
+    const issue: ValidationIssue = {
+      path: issuePath,
+      message: resolved.message,
+      code,
+      params: resolved.params,
+    };
+
+    if (resolved.severity !== undefined) {
+      issue.severity = resolved.severity;
+    }
+
+    return issue;
+  }
+
+  /**
+   * Create the error reported when the value has the wrong type
+   * Uses the `required` message for missing values and the `invalid_type` one otherwise.
+   */
+  protected invalidType(expected: string, data: unknown, options: ValidationOptions): ValidationError {
+    const custom = data === undefined && this._messages.required !== undefined
+      ? this._messages.required
+      : this._messages.invalid_type;
+
+    return this.validationError([
+      this.localizedIssue(
+        'invalid_type',
+        options,
+        options.path || [],
+        { expected, received: typeof data },
+        custom
+      ),
+    ]);
+  }
+
+  /**
+   * Custom messages with the message of a check added
+   */
+  protected withMessage(code: string, message?: CheckMessage): Record<string, CheckMessage> {
+    return message === undefined ? this._messages : { ...this._messages, [code]: message };
+  }
+
+  /**
+   * Custom message declared for an issue code (internal)
+   * Lets composite schemas report issues on behalf of their children
+   */
+  _message(code: string): CheckMessage | undefined {
+    return this._messages[code];
+  }
+
+  /**
+   * Report a non-blocking issue to the current parse run
+   */
+  protected report(issue: ValidationIssue, options: ValidationOptions): void {
+    if (options.warnings) {
+      options.warnings.push(issue);
+    }
+  }
+
+  /**
+   * Build the result of a check list
+   * Non-blocking issues are reported as warnings and do not invalidate the value.
+   */
+  protected settle<V>(value: V, issues: ValidationIssue[], options: ValidationOptions): Result<V, ValidationError> {
+    const errors: ValidationIssue[] = [];
+
+    for (const issue of issues) {
+      if (isBlockingIssue(issue)) {
+        errors.push(issue);
+      } else {
+        this.report(issue, options);
+      }
+    }
+
+    return errors.length > 0 ? err(this.validationError(errors)) : ok(value);
+  }
+
   /**
    * Helper to create a validation error
    */
@@ -395,6 +730,13 @@ export abstract class Schema<T> implements SchemaType<T> {
    * Chaque sous-classe doit implémenter cette méthode avec le bon type de retour.
    */
   abstract partial(): Schema<any>;
+
+  /**
+   * Whether an object property with this schema may be missing
+   */
+  isOptional(): boolean {
+    return false;
+  }
   
   /**
    * Create a new schema that extends this one with additional methods
@@ -411,6 +753,23 @@ export abstract class Schema<T> implements SchemaType<T> {
     return schema as this & U;
   }
   
+  /**
+   * Compile this schema into a specialized validator for hot paths
+   * Object, array, string, number, enum, literal, union and optional/nullable
+   * nodes are compiled; other nodes are interpreted as usual.
+   */
+  compile(): import('./compile').CompiledSchema<T> {
+    return (require('./compile').compile)(this);
+  }
+
+  /**
+   * Compiled validator of this schema, used by `compile()`
+   * Schemas without one return undefined and are interpreted through `_parse`.
+   */
+  _compile(): import('./compile').CompiledNode | undefined {
+    return undefined;
+  }
+  
   /**
    * Apply a set of validation rules to this schema
    */
@@ -452,10 +811,15 @@ class RefinedSchema<T> extends Schema<T> {
   constructor(
     private readonly base: Schema<T>,
     private readonly refinement: (value: T) => boolean | Promise<boolean>,
-    private readonly message: string | ((value: T) => string)
+    private readonly message: string | ((value: T) => string),
+    private readonly severity?: IssueSeverity
   ) {
     super();
   }
+
+  isOptional(): boolean {
+    return this.base.isOptional();
+  }
   
   _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
     const result = this.base._parse(data, options);
@@ -465,26 +829,57 @@ class RefinedSchema<T> extends Schema<T> {
     }
     
     const value = result.unwrap();
+    const passed = this.refinement(value);
+
+    if (isPending(passed)) {
+      return err(this.validationError([
+        this.localizedIssue('async.sync_parse', options, options.path),
+      ]));
+    }
     
-    if (!this.refinement(value)) {
-      const errorMessage = typeof this.message === 'function'
-        ? this.message(value)
-        : this.message;
-      
-      return err(
-        new ValidationError([
-          this.issue(
-            errorMessage,
-            'custom',
-            options.path
-          ),
-        ])
-      );
+    if (!passed) {
+      return this._reject(value, options);
     }
     
     return ok(value);
   }
-  
+
+  /**
+   * Internal asynchronous parse method
+   * Awaits the refinement so that promise-returning refinements are honoured
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const result = await this.base._parseAsync(data, options);
+
+    if (result.isErr()) {
+      return result;
+    }
+
+    const value = result.unwrap();
+
+    if (!(await this.refinement(value))) {
+      return this._reject(value, options);
+    }
+
+    return ok(value);
+  }
+
+  /**
+   * Report a failed refinement
+   * Fails validation, or only reports the issue for non-error severities
+   */
+  private _reject(value: T, options: ValidationOptions): Result<T, ValidationError> {
+    const errorMessage = typeof this.message === 'function'
+      ? this.message(value)
+      : this.message;
+    const issue = this.issue(errorMessage, 'custom', options.path);
+
+    if (this.severity !== undefined) {
+      issue.severity = this.severity;
+    }
+
+    return this.settle(value, [issue], options);
+  }
 
   partial(): Schema<any> {
     // Create a partial version of the base schema
@@ -500,7 +895,123 @@ class RefinedSchema<T> extends Schema<T> {
       },
       typeof this.message === 'function'
         ? (value) => typeof this.message === 'function' ? this.message(value as unknown as T) : this.message
-        : this.message
+        : this.message,
+      this.severity
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Schema that applies superRefine callbacks to a base schema
+ * Chained callbacks share one schema so that all of them run until a fatal issue.
+ */
+class SuperRefinedSchema<T> extends Schema<T> {
+  constructor(
+    private readonly base: Schema<T>,
+    private readonly refinements: SuperRefinement<T>[]
+  ) {
+    super();
+  }
+
+  isOptional(): boolean {
+    return this.base.isOptional();
+  }
+
+  superRefine(refinement: SuperRefinement<T>): Schema<T> {
+    return new SuperRefinedSchema<T>(this.base, [...this.refinements, refinement]);
+  }
+
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const result = this.base._parse(data, options);
+
+    if (result.isErr()) {
+      return result;
+    }
+
+    const value = result.unwrap();
+    const run = this._context(options);
+
+    for (const refinement of this.refinements) {
+      if (isPending(refinement(value, run.ctx))) {
+        return err(this.validationError([
+          this.localizedIssue('async.sync_parse', options, options.path),
+        ]));
+      }
+
+      if (run.aborted) {
+        break;
+      }
+    }
+
+    return this.settle(value, run.issues, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   * Callbacks are awaited in order
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const result = await this.base._parseAsync(data, options);
+
+    if (result.isErr()) {
+      return result;
+    }
+
+    const value = result.unwrap();
+    const run = this._context(options);
+
+    for (const refinement of this.refinements) {
+      await refinement(value, run.ctx);
+
+      if (run.aborted) {
+        break;
+      }
+    }
+
+    return this.settle(value, run.issues, options);
+  }
+
+  /**
+   * Create the refinement context of a parse run
+   * The path is only materialized when a refinement reads it or reports an issue.
+   */
+  private _context(options: ValidationOptions) {
+    let path: PathSegment[] | undefined;
+    const getPath = () => path || (path = toPathArray(options.path));
+    const run = {
+      issues: [] as ValidationIssue[],
+      aborted: false,
+      ctx: {
+        get path() {
+          return getPath();
+        },
+        addIssue: (issue: RefinementIssue) => {
+          if (run.aborted) {
+            return;
+          }
+
+          const reported = this.localizedIssue(
+            issue.code || 'custom',
+            options,
+            [...getPath(), ...(issue.path || [])],
+            issue.params,
+            issue.message
+          );
+
+          if (issue.severity !== undefined) {
+            reported.severity = issue.severity;
+          }
+
+          run.issues.push(reported);
+          run.aborted = issue.fatal === true;
+        },
+      } as RefinementContext,
+    };
+
+    return run;
+  }
+
+  partial(): Schema<any> {
+    return new SuperRefinedSchema<any>(this.base.partial(), this.refinements as SuperRefinement<any>[]);
+  }
+}
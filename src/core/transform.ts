@@ -14,6 +14,13 @@ export class TransformSchema<TInput, TOutput> extends Schema<TOutput> {
     super();
   }
 
+  /**
+   * Optional when the wrapped schema is
+   */
+  isOptional(): boolean {
+    return this.baseSchema.isOptional();
+  }
+
   /**
    * Internal parse method
    */
@@ -21,6 +28,25 @@ export class TransformSchema<TInput, TOutput> extends Schema<TOutput> {
     // First, validate with base schema
     const baseResult = this.baseSchema._parse(data, options);
 
+    return this._applyTransform(baseResult, data, options);
+  }
+
+  /**
+   * Internal asynchronous parse method
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<TOutput, ValidationError>> {
+    const baseResult = await this.baseSchema._parseAsync(data, options);
+    return this._applyTransform(baseResult, data, options);
+  }
+
+  /**
+   * Apply the transformer to a base validation result
+   */
+  private _applyTransform(
+    baseResult: Result<TInput, ValidationError>,
+    data: unknown,
+    options: ValidationOptions
+  ): Result<TOutput, ValidationError> {
     // If base validation fails, return error
     if (baseResult.isErr()) {
       return err(baseResult.unwrapErr());
@@ -39,12 +65,12 @@ export class TransformSchema<TInput, TOutput> extends Schema<TOutput> {
 
     // Handle NaN values for number transformations
     if (typeof transformedValue === 'number' && isNaN(transformedValue)) {
-      return err(new ValidationError([{
-        path: options.path || [],
-        message: `Failed to transform value "${String(data)}" to a valid number`,
-        code: 'transform.invalid_number',
-        params: { value: data }
-      }]));
+      return err(ValidationError.fromCode(
+        'transform.invalid_number',
+        options.path || [],
+        { value: data },
+        options
+      ));
     }
 
     // Otherwise, wrap as Ok
@@ -56,13 +82,7 @@ export class TransformSchema<TInput, TOutput> extends Schema<TOutput> {
    */
   reverse(data: TOutput, options: ValidationOptions = {}): Result<TInput, ValidationError> {
     if (!this.reverseTransformer) {
-      return err(new ValidationError([
-        {
-          path: options.path || [],
-          message: 'Cannot reverse transform: no reverse transformer defined',
-          code: 'transform.no_reverse',
-        }
-      ]));
+      return err(ValidationError.fromCode('transform.no_reverse', options.path || [], undefined, options));
     }
     
     // Apply reverse transformation
@@ -0,0 +1,61 @@
+/**
+ * Unit in which string lengths are counted
+ * - `code-unit`: UTF-16 code units, as `String.prototype.length`
+ * - `code-point`: Unicode code points, as JSON Schema `minLength`/`maxLength`
+ * - `grapheme`: user-perceived characters (an emoji with modifiers counts once)
+ */
+export type LengthUnit = 'code-unit' | 'code-point' | 'grapheme';
+
+/**
+ * Unicode normalization forms applied by `s.string().normalize()`
+ */
+export type NormalizationForm = 'NFC' | 'NFKC';
+
+/**
+ * Part of `Intl.Segmenter` used here, missing from the ES2020 typings
+ */
+interface GraphemeSegmenter {
+  segment(value: string): Iterable<unknown>;
+}
+
+let segmenter: GraphemeSegmenter | null | undefined;
+
+/**
+ * Grapheme segmenter of the runtime, null when `Intl.Segmenter` is missing
+ */
+function getSegmenter(): GraphemeSegmenter | null {
+  if (segmenter === undefined) {
+    const Segmenter = (Intl as any).Segmenter;
+    segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) as GraphemeSegmenter : null;
+  }
+
+  return segmenter as GraphemeSegmenter | null;
+}
+
+/**
+ * Length of a string in the given unit
+ * Grapheme clusters fall back to code points on runtimes without `Intl.Segmenter`.
+ */
+export function stringLength(value: string, unit: LengthUnit = 'code-unit'): number {
+  if (unit === 'code-unit') {
+    return value.length;
+  }
+
+  const graphemes = unit === 'grapheme' ? getSegmenter() : null;
+  let count = 0;
+
+  for (const _ of graphemes ? graphemes.segment(value) : value) {
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Case-folded form of a string, for case-insensitive comparisons
+ * Upper-casing first folds special cases such as `ß`/`SS` and final sigma,
+ * and NFC makes composed and decomposed accents compare equal.
+ */
+export function foldCase(value: string): string {
+  return value.toUpperCase().toLowerCase().normalize('NFC');
+}
@@ -1,6 +1,7 @@
 import { Schema, ValidationOptions } from '../core/schema';
 import { ValidationError } from '../core/errors';
 import { Result, ok, err } from '../core/result';
+import { OptionalSchema, NullableSchema, NullishSchema } from '../core/optional';
 
 /**
  * Database field type
@@ -21,6 +22,11 @@ export interface DBField {
    */
   required?: boolean;
   
+  /**
+   * Whether the field accepts null
+   */
+  nullable?: boolean;
+  
   /**
    * Whether the field is unique
    */
@@ -43,6 +49,7 @@ export interface DBField {
     min?: number;
     max?: number;
     pattern?: string;
+    format?: string;
     [key: string]: any;
   };
 }
@@ -71,10 +78,15 @@ export interface DBModel {
 interface SchemaInternals {
   _shape?: Record<string, Schema<any>>;
   _required?: Set<string>;
-  _min?: number;
-  _max?: number;
+  _min?: number | bigint | string;
+  _max?: number | bigint | string;
+  _precision?: number;
+  _scale?: number;
+  _minDate?: Date;
+  _maxDate?: Date;
   _minLength?: number;
   _maxLength?: number;
+  _length?: number;
   _pattern?: RegExp;
   _format?: string;
   _integer?: boolean;
@@ -99,7 +111,10 @@ export function createSchemaFromModel(model: DBModel): Schema<any> {
     // Create base schema based on field type
     let fieldSchema: Schema<any>;
     
-    switch (field.type.toLowerCase()) {
+    // DECIMAL(p,s) and NUMERIC(p,s) carry their precision and scale
+    const numeric = /^(decimal|numeric)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/i.exec(field.type);
+
+    switch (numeric ? numeric[1].toLowerCase() : field.type.toLowerCase()) {
       case 'string':
       case 'text':
       case 'varchar':
@@ -127,6 +142,11 @@ export function createSchemaFromModel(model: DBModel): Schema<any> {
           if (field.constraints.uuid) {
             fieldSchema = (fieldSchema as any).uuid();
           }
+
+          // Built-in or registered format
+          if (field.constraints.format) {
+            fieldSchema = (fieldSchema as any).format(field.constraints.format);
+          }
         }
         break;
         
@@ -134,7 +154,6 @@ export function createSchemaFromModel(model: DBModel): Schema<any> {
       case 'int':
       case 'integer':
       case 'float':
-      case 'decimal':
         fieldSchema = s.number();
         
         // Add number constraints
@@ -161,19 +180,55 @@ export function createSchemaFromModel(model: DBModel): Schema<any> {
         }
         break;
         
+      case 'decimal':
+      case 'numeric':
+        fieldSchema = s.decimal(numeric ? { precision: Number(numeric[2]), scale: Number(numeric[3] || 0) } : {});
+
+        if (field.constraints) {
+          if (field.constraints.min !== undefined) {
+            fieldSchema = (fieldSchema as any).min(field.constraints.min);
+          }
+
+          if (field.constraints.max !== undefined) {
+            fieldSchema = (fieldSchema as any).max(field.constraints.max);
+          }
+        }
+        break;
+
       case 'boolean':
       case 'bool':
         fieldSchema = s.boolean();
         break;
         
+      case 'bigint':
+        fieldSchema = s.bigint();
+        
+        if (field.constraints) {
+          if (field.constraints.min !== undefined) {
+            fieldSchema = (fieldSchema as any).min(BigInt(field.constraints.min));
+          }
+          
+          if (field.constraints.max !== undefined) {
+            fieldSchema = (fieldSchema as any).max(BigInt(field.constraints.max));
+          }
+        }
+        break;
+        
       case 'date':
       case 'datetime':
       case 'timestamp':
-        // Handle date as string with transformation
-        fieldSchema = s.string().transform(
-          (value: string | number | Date) => new Date(value),
-          (date: { toISOString: () => string }) => date.toISOString()
-        );
+        // Dates, also accepted as ISO strings and epoch numbers
+        fieldSchema = s.date();
+        
+        if (field.constraints) {
+          if (field.constraints.minDate !== undefined) {
+            fieldSchema = (fieldSchema as any).min(field.constraints.minDate);
+          }
+          
+          if (field.constraints.maxDate !== undefined) {
+            fieldSchema = (fieldSchema as any).max(field.constraints.maxDate);
+          }
+        }
         break;
         
       case 'array':
@@ -190,7 +245,7 @@ export function createSchemaFromModel(model: DBModel): Schema<any> {
         fieldSchema = (fieldSchema as any).extend({
           _parse: (data: unknown, options: ValidationOptions): Result<any, ValidationError> => {
             if (typeof data !== 'object' || data === null || Array.isArray(data)) {
-              return err(ValidationError.typeMismatch('object', data, options.path || []));
+              return err(ValidationError.typeMismatch('object', data, options.path || [], options));
             }
             return ok(data);
           }
@@ -207,6 +262,10 @@ export function createSchemaFromModel(model: DBModel): Schema<any> {
       fieldSchema = (fieldSchema as any).describe(field.description);
     }
     
+    if (field.nullable) {
+      fieldSchema = fieldSchema.nullable();
+    }
+    
     // Make optional if not required
     if (!field.required) {
       fieldSchema = (fieldSchema as any).optional();
@@ -249,13 +308,19 @@ export function createModelFromSchema(
     const shape = schemaWithInternals._shape;
     const required = schemaWithInternals._required;
     
-    for (const [fieldName, fieldSchema] of Object.entries(shape)) {
+    for (const [fieldName, propertySchema] of Object.entries(shape)) {
+      // Optional and nullable wrappers describe the field, not its type
+      const { schema: fieldSchema, nullable } = unwrapFieldSchema(propertySchema);
       const field: DBField = {
         name: fieldName,
         type: inferTypeFromSchema(fieldSchema as SchemaWithInternals<any>),
         required: required ? required.has(fieldName) : false,
       };
       
+      if (nullable) {
+        field.nullable = true;
+      }
+      
       // Try to extract description
       const fieldSchemaWithInternals = fieldSchema as SchemaWithInternals<any>;
       if (typeof fieldSchemaWithInternals.getMetadata === 'function') {
@@ -264,9 +329,12 @@ export function createModelFromSchema(
         if (metadata && metadata.description) {
           field.description = metadata.description;
         }
-        
-        // Extract constraints if any
-        field.constraints = extractConstraints(fieldSchemaWithInternals);
+      }
+
+      // Extract constraints if any
+      const constraints = extractConstraints(fieldSchemaWithInternals);
+      if (constraints) {
+        field.constraints = constraints;
       }
       
       fields.push(field);
@@ -280,6 +348,20 @@ export function createModelFromSchema(
   };
 }
 
+/**
+ * Remove the optional, nullable and nullish wrappers of a field schema
+ */
+function unwrapFieldSchema(schema: Schema<any>): { schema: Schema<any>; nullable: boolean } {
+  let nullable = false;
+  
+  while (schema instanceof OptionalSchema || schema instanceof NullableSchema || schema instanceof NullishSchema) {
+    nullable = nullable || !(schema instanceof OptionalSchema);
+    schema = schema.unwrap();
+  }
+  
+  return { schema, nullable };
+}
+
 /**
  * Infer DB type from schema
  */
@@ -299,11 +381,38 @@ function inferTypeFromSchema(schema: SchemaWithInternals<any>): string {
       return 'boolean';
       
     case 'ArraySchema':
+    case 'TupleSchema':
+    case 'SetSchema':
       return 'array';
       
     case 'ObjectSchema':
+    case 'MapSchema':
       return 'object';
       
+    case 'DateSchema':
+      return 'date';
+      
+    case 'BigIntSchema':
+      return 'bigint';
+
+    case 'DecimalSchema':
+      return schema._precision !== undefined
+        ? `DECIMAL(${schema._precision},${schema._scale || 0})`
+        : 'decimal';
+      
+    case 'SymbolSchema':
+      return 'symbol';
+      
+    case 'UndefinedSchema':
+    case 'VoidSchema':
+      return 'undefined';
+      
+    case 'NeverSchema':
+      return 'never';
+      
+    case 'UnknownSchema':
+      return 'any';
+      
     default:
       return 'any';
   }
@@ -323,6 +432,11 @@ function extractConstraints(schema: SchemaWithInternals<any>): Record<string, an
   if (schema._maxLength !== undefined) {
     constraints.max = schema._maxLength;
   }
+
+  if (schema._length !== undefined) {
+    constraints.min = schema._length;
+    constraints.max = schema._length;
+  }
   
   if (schema._pattern) {
     constraints.pattern = schema._pattern.source;
@@ -335,14 +449,27 @@ function extractConstraints(schema: SchemaWithInternals<any>): Record<string, an
   if (schema._format === 'uuid') {
     constraints.uuid = true;
   }
+
+  if (schema._format !== undefined && schema._format !== 'email' && schema._format !== 'uuid') {
+    constraints.format = schema._format;
+  }
   
-  // Number constraints
+  // Number and bigint constraints (bigints as strings)
   if (schema._min !== undefined) {
-    constraints.min = schema._min;
+    constraints.min = typeof schema._min === 'bigint' ? String(schema._min) : schema._min;
   }
   
   if (schema._max !== undefined) {
-    constraints.max = schema._max;
+    constraints.max = typeof schema._max === 'bigint' ? String(schema._max) : schema._max;
+  }
+  
+  // Date constraints, as ISO strings
+  if (schema._minDate !== undefined) {
+    constraints.minDate = schema._minDate.toISOString();
+  }
+  
+  if (schema._maxDate !== undefined) {
+    constraints.maxDate = schema._maxDate.toISOString();
   }
   
   if (schema._positive) {
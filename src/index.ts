@@ -2,6 +2,8 @@
 import { ok, err, Result } from './core/result';
 import { Schema, CustomSchema, ValidationOptions, PartialSchema } from './core/schema';
 import { ValidationError } from './core/errors';
+import { setLocale, getLocale, registerLocale, setErrorMap } from './core/messages';
+import { registerFormat } from './core/formats';
 import { biMap } from './core/bimap';
 import { addVersionedToSchema } from './core/versioned';
 import { withContext } from './core/contextual';
@@ -9,7 +11,7 @@ import { transform } from './core/transform';
 import { preprocess, postprocess } from './core/process';
 import { createVersionRegistry } from './core/migration';
 import { withMetadata } from './core/metadata';
-import { asyncValidate } from './core/async';
+import { asyncValidate, asyncValidateBatch } from './core/async';
 import { restrict, withPermissions } from './core/permissions';
 import {
   createApiResponseSchema,
@@ -22,14 +24,26 @@ import {
 } from './core/generic';
 
 // Type schemas
-import { string } from './types/string';
-import { number } from './types/number';
-import { boolean } from './types/boolean';
+import { string, StringSchemaOptions } from './types/string';
+import { number, NumberSchemaOptions } from './types/number';
+import { boolean, BooleanSchemaOptions } from './types/boolean';
 import { object } from './types/object';
 import { array } from './types/array';
+import { tuple } from './types/tuple';
+import { map } from './types/map';
+import { set } from './types/set';
 import { createEnum } from './types/enum';
 import { nullSchema } from './types/null';
 import { any } from './types/any';
+import { date, DateSchemaOptions } from './types/date';
+import { bigint, BigIntSchemaOptions } from './types/bigint';
+import { decimal } from './types/decimal';
+import { symbol } from './types/symbol';
+import { undefinedSchema, voidSchema } from './types/undefined';
+import { never } from './types/never';
+import { unknown } from './types/unknown';
+import { literal } from './types/literal';
+import { templateLiteral } from './types/template-literal';
 
 // Create main schema namespace
 const s = {
@@ -39,9 +53,30 @@ const s = {
   boolean,
   object,
   array,
+  tuple,
+  map,
+  set,
   enum: createEnum,
+  literal,
+  templateLiteral,
   null: nullSchema,
   any: any,
+  date,
+  bigint,
+  decimal,
+  symbol,
+  undefined: undefinedSchema,
+  void: voidSchema,
+  never,
+  unknown,
+  // Schemas converting their input, for query strings and forms
+  coerce: {
+    string: (options: StringSchemaOptions = {}) => string({ ...options, coerce: true }),
+    number: (options: NumberSchemaOptions = {}) => number({ ...options, coerce: true }),
+    boolean: (options: BooleanSchemaOptions = {}) => boolean({ ...options, coerce: true }),
+    date: (options: DateSchemaOptions = {}) => date({ ...options, coerce: true }),
+    bigint: (options: BigIntSchemaOptions = {}) => bigint({ ...options, coerce: true }),
+  },
   instanceof: <T>(constructor: new (...args: any[]) => T): CustomSchema<T> => {
     return new CustomSchema((value: unknown): Result<T, ValidationError> => {
       if (value instanceof constructor) {
@@ -57,6 +92,7 @@ const s = {
 
   // Async validation
   asyncValidate,
+  asyncValidateBatch,
 
   // Permissions and RBAC
   restrict,
@@ -103,8 +139,14 @@ export {
   createVersionRegistry,
   withMetadata,
   asyncValidate,
+  asyncValidateBatch,
   restrict,
   withPermissions,
+  setLocale,
+  getLocale,
+  registerLocale,
+  setErrorMap,
+  registerFormat,
 };
 
 // Web framework exports
@@ -113,6 +155,11 @@ export {
   createRequestValidator 
 } from './web/express';
 
+export {
+  toProblemDetails,
+  PROBLEM_JSON_CONTENT_TYPE
+} from './web/problem-details';
+
 export {
   createFastifyValidation,
   createFastifyPlugin,
@@ -129,7 +176,36 @@ export {
 
 // Type utility exports
 export type { Result } from './core/result';
-export type { ValidationIssue } from './core/errors';
-export type { InferObjectType } from './types/object';
+export type { ValidationIssue, IssueSeverity, FlattenedError, FormattedError } from './core/errors';
+export type {
+  InferType,
+  Brand,
+  ParseResult,
+  RefineOptions,
+  RefinementContext,
+  RefinementIssue,
+  SuperRefinement
+} from './core/schema';
+export type { PathSegment } from './core/path';
+export type { LiteralValue } from './types/literal';
+export type { InferTupleType } from './types/tuple';
+export type { DecimalSchema, DecimalInput, DecimalClass } from './types/decimal';
+export type { TemplateLiteralPart, InferTemplateLiteral } from './types/template-literal';
+export type { InferObjectType, UnknownKeysPolicy, MergeObjectTypes, DeepPartial } from './types/object';
 export type { BiMapConfig, ToMappingFn, FromMappingFn } from './core/bimap';
-export type { Versioned, VersionedOptions } from './core/versioned';
\ No newline at end of file
+export type { Versioned, VersionedOptions } from './core/versioned';
+export type { AsyncValidatorContext, AsyncBatchValidatorFn } from './core/async';
+export type { CompiledSchema } from './core/compile';
+export type { OptionalSchema, NullableSchema, NullishSchema } from './core/optional';
+export type { CatchSchema, CatchFallback, CatchEvent } from './core/catch';
+export type { StringFormatDefinition } from './core/formats';
+export type { LengthUnit, NormalizationForm } from './core/unicode';
+export type { ProblemDetails, ProblemDetailsIssue, ProblemDetailsOptions } from './web/problem-details';
+export type {
+  MessageCatalog,
+  MessageTemplate,
+  ErrorMap,
+  ErrorMapIssue,
+  CheckMessage,
+  SchemaMessageOptions
+} from './core/messages';
\ No newline at end of file
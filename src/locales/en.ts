@@ -0,0 +1,121 @@
+import type { MessageCatalog } from '../core/messages';
+
+/**
+ * English messages
+ */
+export const en: MessageCatalog = {
+  invalid_type: 'Expected {expected}, received {received}',
+  custom: 'Invalid value',
+
+  // String
+  'string.min': 'String must have at least {min} character(s)',
+  'string.max_length': 'String must contain at most {maxLength} character(s)',
+  'string.pattern': 'String must match pattern: {pattern}',
+  'string.email': 'Invalid email address',
+  'string.url': 'Invalid URL',
+  'string.uuid': 'Invalid UUID',
+  'string.length': 'String must contain exactly {length} character(s)',
+  'string.starts_with': 'String must start with "{prefix}"',
+  'string.ends_with': 'String must end with "{suffix}"',
+  'string.includes': 'String must include "{substring}"',
+  'string.datetime': 'Invalid date-time',
+  'string.date': 'Invalid date (expected YYYY-MM-DD)',
+  'string.time': 'Invalid time (expected HH:MM:SS)',
+  'string.ipv4': 'Invalid IPv4 address',
+  'string.ipv6': 'Invalid IPv6 address',
+  'string.cidr': 'Invalid CIDR range',
+  'string.hostname': 'Invalid hostname',
+  'string.ulid': 'Invalid ULID',
+  'string.cuid2': 'Invalid CUID2',
+  'string.nanoid': 'Invalid Nano ID',
+  'string.base64': 'Invalid base64',
+  'string.base64url': 'Invalid base64url',
+  'string.jwt': 'Invalid JWT',
+  'string.emoji': 'String must only contain emoji',
+  'string.invalid_format': 'Invalid {format}',
+  'string.format': 'Unsupported format: {format}',
+
+  // Number
+  'number.integer': 'Number must be an integer',
+  'number.positive': 'Number must be positive',
+  'number.negative': 'Number must be negative',
+  'number.min': 'Number must be greater than or equal to {min}',
+  'number.max': 'Number must be less than or equal to {max}',
+  'number.multiple_of': 'Number must be a multiple of {multipleOf}',
+  'number.gt': 'Number must be greater than {gt}',
+  'number.lt': 'Number must be less than {lt}',
+  'number.nonnegative': 'Number must not be negative',
+  'number.nonpositive': 'Number must not be positive',
+  'number.finite': 'Number must be finite',
+  'number.safe': 'Number must be a safe integer',
+  'number.precision': 'Number must have at most {precision} decimal place(s)',
+
+  // Date
+  'date.invalid': 'Invalid date',
+  'date.min': 'Date must be on or after {min}',
+  'date.max': 'Date must be on or before {max}',
+
+  // BigInt
+  'bigint.positive': 'BigInt must be positive',
+  'bigint.negative': 'BigInt must be negative',
+  'bigint.nonnegative': 'BigInt must not be negative',
+  'bigint.nonpositive': 'BigInt must not be positive',
+  'bigint.min': 'BigInt must be greater than or equal to {min}',
+  'bigint.max': 'BigInt must be less than or equal to {max}',
+
+  // Decimal
+  'decimal.invalid': 'Invalid decimal',
+  'decimal.precision': 'Decimal must have at most {precision} digit(s)',
+  'decimal.scale': 'Decimal must have at most {scale} digit(s) after the point',
+  'decimal.min': 'Decimal must be greater than or equal to {min}',
+  'decimal.max': 'Decimal must be less than or equal to {max}',
+
+  // Array
+  'array.min_length': 'Array must contain at least {min} item(s)',
+  'array.max_length': 'Array must contain at most {max} item(s)',
+  'array.unique': 'Array items must be unique, found duplicates at positions: {duplicates}',
+  'tuple.max_length': 'Tuple must contain at most {max} item(s)',
+  'map.min_size': 'Map must contain at least {min} entry(ies)',
+  'map.max_size': 'Map must contain at most {max} entry(ies)',
+  'set.min_size': 'Set must contain at least {min} item(s)',
+  'set.max_size': 'Set must contain at most {max} item(s)',
+
+  // Object and enum
+  'object.required': 'Required property missing',
+  'object.unrecognized_keys': 'Unrecognized key(s) in object: {keys}',
+  'enum.invalid': 'Invalid enum value. Expected one of: {expected}',
+  'literal.invalid': params => `Invalid literal value, expected ${JSON.stringify(params.expected)}`,
+  'template_literal.invalid': 'String must match the template {template}',
+
+  // Generic schemas
+  'union.no_match': 'Value did not match any schema in union',
+  'union.discriminator_missing': "Discriminator property '{discriminator}' is missing",
+  'union.no_discriminator_match': "No schema matched discriminator value '{value}'",
+  'lazy.evaluation_error': 'Failed to evaluate lazy schema: {error}',
+  'api.missing_success': 'API response must have a boolean success field',
+  'api.missing_data': 'Successful API response must have a data field',
+  'pagination.missing_field': 'Missing required pagination field: {field}',
+  'pagination.items_not_array': 'Pagination items must be an array',
+  'pagination.field_not_number': 'Pagination field {field} must be a number',
+
+  // Transformations
+  'transform.invalid_number': 'Failed to transform value "{value}" to a valid number',
+  'transform.no_reverse': 'Cannot reverse transform: no reverse transformer defined',
+  'process.postprocess_failed': 'Postprocessing failed: {error}',
+
+  // Metadata
+  'deprecated': params => params.field !== undefined
+    ? `Field "${params.field}" is deprecated`
+    : 'Value is deprecated',
+
+  // Permissions
+  'permission.denied': 'Access denied: insufficient permissions',
+
+  // Async validation
+  'async.failed': 'Async validation failed',
+  'async.error': 'Async validation error: {error}',
+  'async.timeout': 'Async validation timed out after {timeout}ms',
+  'async.aborted': 'Async validation was aborted',
+  'async.batch_length': 'Batch validator returned {received} result(s) for {expected} value(s)',
+  'async.sync_parse': 'Async refinement requires parseAsync',
+};
@@ -0,0 +1,121 @@
+import type { MessageCatalog } from '../core/messages';
+
+/**
+ * Messages en français
+ */
+export const fr: MessageCatalog = {
+  invalid_type: 'Type attendu : {expected}, reçu : {received}',
+  custom: 'Valeur invalide',
+
+  // Chaînes
+  'string.min': 'La chaîne doit contenir au moins {min} caractère(s)',
+  'string.max_length': 'La chaîne doit contenir au plus {maxLength} caractère(s)',
+  'string.pattern': 'La chaîne doit correspondre au motif : {pattern}',
+  'string.email': 'Adresse e-mail invalide',
+  'string.url': 'URL invalide',
+  'string.uuid': 'UUID invalide',
+  'string.length': 'La chaîne doit contenir exactement {length} caractère(s)',
+  'string.starts_with': 'La chaîne doit commencer par « {prefix} »',
+  'string.ends_with': 'La chaîne doit se terminer par « {suffix} »',
+  'string.includes': 'La chaîne doit contenir « {substring} »',
+  'string.datetime': 'Date et heure invalides',
+  'string.date': 'Date invalide (format attendu : AAAA-MM-JJ)',
+  'string.time': 'Heure invalide (format attendu : HH:MM:SS)',
+  'string.ipv4': 'Adresse IPv4 invalide',
+  'string.ipv6': 'Adresse IPv6 invalide',
+  'string.cidr': 'Plage CIDR invalide',
+  'string.hostname': "Nom d'hôte invalide",
+  'string.ulid': 'ULID invalide',
+  'string.cuid2': 'CUID2 invalide',
+  'string.nanoid': 'Nano ID invalide',
+  'string.base64': 'Base64 invalide',
+  'string.base64url': 'Base64url invalide',
+  'string.jwt': 'JWT invalide',
+  'string.emoji': 'La chaîne ne doit contenir que des emoji',
+  'string.invalid_format': 'Format {format} invalide',
+  'string.format': 'Format non pris en charge : {format}',
+
+  // Nombres
+  'number.integer': 'Le nombre doit être un entier',
+  'number.positive': 'Le nombre doit être positif',
+  'number.negative': 'Le nombre doit être négatif',
+  'number.min': 'Le nombre doit être supérieur ou égal à {min}',
+  'number.max': 'Le nombre doit être inférieur ou égal à {max}',
+  'number.multiple_of': 'Le nombre doit être un multiple de {multipleOf}',
+  'number.gt': 'Le nombre doit être strictement supérieur à {gt}',
+  'number.lt': 'Le nombre doit être strictement inférieur à {lt}',
+  'number.nonnegative': 'Le nombre ne doit pas être négatif',
+  'number.nonpositive': 'Le nombre ne doit pas être positif',
+  'number.finite': 'Le nombre doit être fini',
+  'number.safe': 'Le nombre doit être un entier sûr',
+  'number.precision': 'Le nombre doit avoir au plus {precision} décimale(s)',
+
+  // Dates
+  'date.invalid': 'Date invalide',
+  'date.min': 'La date doit être postérieure ou égale au {min}',
+  'date.max': 'La date doit être antérieure ou égale au {max}',
+
+  // BigInt
+  'bigint.positive': 'Le BigInt doit être positif',
+  'bigint.negative': 'Le BigInt doit être négatif',
+  'bigint.nonnegative': 'Le BigInt ne doit pas être négatif',
+  'bigint.nonpositive': 'Le BigInt ne doit pas être positif',
+  'bigint.min': 'Le BigInt doit être supérieur ou égal à {min}',
+  'bigint.max': 'Le BigInt doit être inférieur ou égal à {max}',
+
+  // Décimaux
+  'decimal.invalid': 'Décimal invalide',
+  'decimal.precision': 'Le décimal doit avoir au plus {precision} chiffre(s)',
+  'decimal.scale': 'Le décimal doit avoir au plus {scale} chiffre(s) après la virgule',
+  'decimal.min': 'Le décimal doit être supérieur ou égal à {min}',
+  'decimal.max': 'Le décimal doit être inférieur ou égal à {max}',
+
+  // Tableaux
+  'array.min_length': 'Le tableau doit contenir au moins {min} élément(s)',
+  'array.max_length': 'Le tableau doit contenir au plus {max} élément(s)',
+  'array.unique': 'Les éléments du tableau doivent être uniques, doublons aux positions : {duplicates}',
+  'tuple.max_length': 'Le tuple doit contenir au plus {max} élément(s)',
+  'map.min_size': 'La map doit contenir au moins {min} entrée(s)',
+  'map.max_size': 'La map doit contenir au plus {max} entrée(s)',
+  'set.min_size': 'L\'ensemble doit contenir au moins {min} élément(s)',
+  'set.max_size': 'L\'ensemble doit contenir au plus {max} élément(s)',
+
+  // Objets et énumérations
+  'object.required': 'Propriété obligatoire manquante',
+  'object.unrecognized_keys': "Clé(s) non reconnue(s) dans l'objet : {keys}",
+  'enum.invalid': "Valeur d'énumération invalide. Valeurs attendues : {expected}",
+  'literal.invalid': params => `Valeur littérale invalide, attendu : ${JSON.stringify(params.expected)}`,
+  'template_literal.invalid': 'La chaîne doit correspondre au modèle {template}',
+
+  // Schémas génériques
+  'union.no_match': "La valeur ne correspond à aucun schéma de l'union",
+  'union.discriminator_missing': "La propriété discriminante '{discriminator}' est manquante",
+  'union.no_discriminator_match': "Aucun schéma ne correspond à la valeur discriminante '{value}'",
+  'lazy.evaluation_error': "Échec de l'évaluation du schéma différé : {error}",
+  'api.missing_success': "La réponse de l'API doit avoir un champ booléen success",
+  'api.missing_data': "Une réponse de l'API réussie doit avoir un champ data",
+  'pagination.missing_field': 'Champ de pagination obligatoire manquant : {field}',
+  'pagination.items_not_array': 'Les éléments paginés doivent être un tableau',
+  'pagination.field_not_number': 'Le champ de pagination {field} doit être un nombre',
+
+  // Transformations
+  'transform.invalid_number': 'Impossible de transformer la valeur "{value}" en nombre valide',
+  'transform.no_reverse': 'Transformation inverse impossible : aucun transformateur inverse défini',
+  'process.postprocess_failed': 'Échec du post-traitement : {error}',
+
+  // Métadonnées
+  'deprecated': params => params.field !== undefined
+    ? `Le champ "${params.field}" est obsolète`
+    : 'Valeur obsolète',
+
+  // Permissions
+  'permission.denied': 'Accès refusé : permissions insuffisantes',
+
+  // Validation asynchrone
+  'async.failed': 'Échec de la validation asynchrone',
+  'async.error': 'Erreur de validation asynchrone : {error}',
+  'async.timeout': 'La validation asynchrone a expiré après {timeout} ms',
+  'async.aborted': 'La validation asynchrone a été annulée',
+  'async.batch_length': 'Le validateur groupé a renvoyé {received} résultat(s) pour {expected} valeur(s)',
+  'async.sync_parse': 'Le raffinement asynchrone nécessite parseAsync',
+};
@@ -1,8 +1,23 @@
 import { Schema } from '../core/schema';
+import { OptionalSchema, NullableSchema, NullishSchema } from '../core/optional';
+import { CatchSchema } from '../core/catch';
+import { getFormat, findFormatByJsonSchema } from '../core/formats';
 import { ObjectSchema } from '../types/object';
 import { StringSchema } from '../types/string';
 import { NumberSchema } from '../types/number';
 import { ArraySchema } from '../types/array';
+import { TupleSchema } from '../types/tuple';
+import { MapSchema } from '../types/map';
+import { SetSchema } from '../types/set';
+import { DateSchema } from '../types/date';
+import { BigIntSchema } from '../types/bigint';
+import { DecimalSchema } from '../types/decimal';
+import { SymbolSchema } from '../types/symbol';
+import { UndefinedSchema, VoidSchema } from '../types/undefined';
+import { NeverSchema } from '../types/never';
+import { UnknownSchema } from '../types/unknown';
+import { LiteralSchema } from '../types/literal';
+import { TemplateLiteralSchema } from '../types/template-literal';
 
 /**
  * JSON Schema representation
@@ -11,7 +26,8 @@ export interface JSONSchema {
   type?: string | string[];
   properties?: Record<string, JSONSchema>;
   required?: string[];
-  items?: JSONSchema;
+  items?: JSONSchema | boolean;
+  prefixItems?: JSONSchema[];
   minItems?: number;
   maxItems?: number;
   uniqueItems?: boolean;
@@ -20,14 +36,19 @@ export interface JSONSchema {
   pattern?: string;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
   multipleOf?: number;
   format?: string;
   enum?: any[];
+  const?: any;
   $ref?: string;
   title?: string;
   description?: string;
   default?: any;
   additionalProperties?: boolean | JSONSchema;
+  not?: JSONSchema;
+  anyOf?: JSONSchema[];
   [key: string]: any;
 }
 
@@ -35,7 +56,15 @@ export interface JSONSchema {
  * Convert a schema to JSON Schema
  */
 export function toJsonSchema(schema: Schema<any>): JSONSchema {
-  if (schema instanceof StringSchema) {
+  if (schema instanceof OptionalSchema) {
+    // Optional properties are left out of `required` by the object
+    return toJsonSchema(schema.unwrap());
+  } else if (schema instanceof CatchSchema) {
+    // The fallback only applies after validation, the accepted values are the same
+    return toJsonSchema(schema.unwrap());
+  } else if (schema instanceof NullableSchema || schema instanceof NullishSchema) {
+    return convertNullableSchema(schema.unwrap());
+  } else if (schema instanceof StringSchema) {
     return convertStringSchema(schema);
   } else if (schema instanceof NumberSchema) {
     return convertNumberSchema(schema);
@@ -43,12 +72,62 @@ export function toJsonSchema(schema: Schema<any>): JSONSchema {
     return convertObjectSchema(schema);
   } else if (schema instanceof ArraySchema) {
     return convertArraySchema(schema);
+  } else if (schema instanceof TupleSchema) {
+    return convertTupleSchema(schema);
+  } else if (schema instanceof MapSchema) {
+    return convertMapSchema(schema);
+  } else if (schema instanceof SetSchema) {
+    return convertSetSchema(schema);
+  } else if (schema instanceof DateSchema) {
+    return convertDateSchema(schema);
+  } else if (schema instanceof BigIntSchema) {
+    return convertBigIntSchema(schema);
+  } else if (schema instanceof DecimalSchema) {
+    // Decimals travel as strings to keep their precision
+    return { type: 'string', format: 'decimal' };
+  } else if (schema instanceof LiteralSchema) {
+    return convertLiteralSchema(schema);
+  } else if (schema instanceof TemplateLiteralSchema) {
+    return { type: 'string', pattern: schema.pattern.source };
+  } else if (schema instanceof UnknownSchema) {
+    return {};
+  } else if (
+    schema instanceof SymbolSchema ||
+    schema instanceof UndefinedSchema ||
+    schema instanceof VoidSchema ||
+    schema instanceof NeverSchema
+  ) {
+    // No JSON value matches
+    return { not: {} };
   }
   
   // Default fallback
   return { type: 'object' };
 }
 
+/**
+ * Convert the schema wrapped by NullableSchema or NullishSchema to JSON Schema
+ * `null` is added to the type when possible, as an `anyOf` alternative otherwise.
+ */
+function convertNullableSchema(schema: Schema<any>): JSONSchema {
+  const jsonSchema = toJsonSchema(schema);
+
+  if (typeof jsonSchema.type === 'string' && jsonSchema.const === undefined && jsonSchema.enum === undefined) {
+    return { ...jsonSchema, type: [jsonSchema.type, 'null'] };
+  }
+
+  return { anyOf: [jsonSchema, { type: 'null' }] };
+}
+
+/**
+ * JSON Schema `format` of the string formats named differently
+ * The other formats keep their name, standard (`date`, `ipv4`, `hostname`...) or not.
+ */
+const JSON_SCHEMA_STRING_FORMATS: Record<string, string> = {
+  url: 'uri',
+  datetime: 'date-time',
+};
+
 /**
  * Convert StringSchema to JSON Schema
  */
@@ -67,13 +146,26 @@ function convertStringSchema(schema: StringSchema): JSONSchema {
   if (privateProps._maxLength !== undefined) {
     jsonSchema.maxLength = privateProps._maxLength;
   }
+
+  if (privateProps._length !== undefined) {
+    jsonSchema.minLength = privateProps._length;
+    jsonSchema.maxLength = privateProps._length;
+  }
   
   if (privateProps._pattern) {
     jsonSchema.pattern = privateProps._pattern.source;
   }
   
-  if (privateProps._format) {
-    jsonSchema.format = privateProps._format;
+  const customFormat = privateProps._format ? getFormat(privateProps._format) : undefined;
+
+  if (customFormat) {
+    jsonSchema.format = customFormat.jsonSchemaFormat || privateProps._format;
+
+    if (customFormat.example !== undefined) {
+      jsonSchema.examples = [customFormat.example];
+    }
+  } else if (privateProps._format) {
+    jsonSchema.format = JSON_SCHEMA_STRING_FORMATS[privateProps._format] || privateProps._format;
   }
   
   return jsonSchema;
@@ -90,20 +182,121 @@ function convertNumberSchema(schema: NumberSchema): JSONSchema {
   // Access private properties if available
   const privateProps = schema as any;
   
-  if (privateProps._integer) {
+  if (privateProps._integer || privateProps._safe) {
     jsonSchema.type = 'integer';
   }
+
+  // Signs and safe integers narrow the explicit bounds
+  const minimum = strictest(Math.max, [
+    privateProps._min,
+    privateProps._nonnegative ? 0 : undefined,
+    privateProps._safe ? Number.MIN_SAFE_INTEGER : undefined,
+  ]);
+  const maximum = strictest(Math.min, [
+    privateProps._max,
+    privateProps._nonpositive ? 0 : undefined,
+    privateProps._safe ? Number.MAX_SAFE_INTEGER : undefined,
+  ]);
+  const exclusiveMinimum = strictest(Math.max, [privateProps._gt, privateProps._positive ? 0 : undefined]);
+  const exclusiveMaximum = strictest(Math.min, [privateProps._lt, privateProps._negative ? 0 : undefined]);
+  
+  if (minimum !== undefined) {
+    jsonSchema.minimum = minimum;
+  }
+  
+  if (maximum !== undefined) {
+    jsonSchema.maximum = maximum;
+  }
+
+  if (exclusiveMinimum !== undefined) {
+    jsonSchema.exclusiveMinimum = exclusiveMinimum;
+  }
+
+  if (exclusiveMaximum !== undefined) {
+    jsonSchema.exclusiveMaximum = exclusiveMaximum;
+  }
+  
+  if (privateProps._multipleOf !== undefined) {
+    jsonSchema.multipleOf = privateProps._multipleOf;
+  } else if (privateProps._precision !== undefined) {
+    jsonSchema.multipleOf = Number(`1e-${privateProps._precision}`);
+  }
+  
+  return jsonSchema;
+}
+
+/**
+ * Strictest of the defined bounds, undefined when none is
+ */
+function strictest(pick: (...values: number[]) => number, bounds: Array<number | undefined>): number | undefined {
+  const defined = bounds.filter((bound): bound is number => bound !== undefined);
+  return defined.length > 0 ? pick(...defined) : undefined;
+}
+
+/**
+ * Convert LiteralSchema to JSON Schema
+ */
+function convertLiteralSchema(schema: LiteralSchema<any>): JSONSchema {
+  const value = schema.value;
+  
+  return {
+    type: value === null ? 'null' : typeof value,
+    const: value,
+  };
+}
+
+/**
+ * Convert DateSchema to JSON Schema
+ * Dates are serialized as ISO 8601 strings
+ */
+function convertDateSchema(schema: DateSchema): JSONSchema {
+  const jsonSchema: JSONSchema = {
+    type: 'string',
+    format: 'date-time',
+  };
+  
+  // Access private properties if available
+  const privateProps = schema as any;
+  
+  if (privateProps._minDate !== undefined) {
+    jsonSchema.formatMinimum = privateProps._minDate.toISOString();
+  }
+  
+  if (privateProps._maxDate !== undefined) {
+    jsonSchema.formatMaximum = privateProps._maxDate.toISOString();
+  }
+  
+  return jsonSchema;
+}
+
+/**
+ * Convert BigIntSchema to JSON Schema
+ */
+function convertBigIntSchema(schema: BigIntSchema): JSONSchema {
+  const jsonSchema: JSONSchema = {
+    type: 'integer',
+    format: 'int64',
+  };
+  
+  // Access private properties if available
+  const privateProps = schema as any;
   
   if (privateProps._min !== undefined) {
-    jsonSchema.minimum = privateProps._min;
+    jsonSchema.minimum = Number(privateProps._min);
   }
   
   if (privateProps._max !== undefined) {
-    jsonSchema.maximum = privateProps._max;
+    jsonSchema.maximum = Number(privateProps._max);
   }
   
-  if (privateProps._multipleOf !== undefined) {
-    jsonSchema.multipleOf = privateProps._multipleOf;
+  if (privateProps._sign === 'positive') {
+    jsonSchema.exclusiveMinimum = 0;
+  } else if (privateProps._sign === 'negative') {
+    jsonSchema.exclusiveMaximum = 0;
+  } else if (privateProps._sign === 'nonnegative') {
+    jsonSchema.minimum = Math.max(jsonSchema.minimum !== undefined ? jsonSchema.minimum : 0, 0);
+  } else if (privateProps._sign === 'nonpositive') {
+    jsonSchema.maximum = Math.min(jsonSchema.maximum !== undefined ? jsonSchema.maximum : 0, 0);
   }
   
   return jsonSchema;
@@ -132,6 +325,14 @@ function convertObjectSchema(schema: ObjectSchema<any>): JSONSchema {
     jsonSchema.required = Array.from(privateProps._required);
   }
   
+  if (privateProps._catchall) {
+    jsonSchema.additionalProperties = toJsonSchema(privateProps._catchall);
+  } else if (privateProps._unknownKeys === 'strict') {
+    jsonSchema.additionalProperties = false;
+  } else if (privateProps._unknownKeys === 'passthrough') {
+    jsonSchema.additionalProperties = true;
+  }
+  
   return jsonSchema;
 }
 
@@ -165,6 +366,82 @@ function convertArraySchema(schema: ArraySchema<any>): JSONSchema {
   return jsonSchema;
 }
 
+/**
+ * Convert TupleSchema to JSON Schema
+ * Trailing items accepting `undefined` are not counted in `minItems`.
+ */
+function convertTupleSchema(schema: TupleSchema<any>): JSONSchema {
+  const items = schema.items;
+  const rest = (schema as any)._rest;
+  let required = items.length;
+
+  while (required > 0 && items[required - 1].safeParse(undefined).isOk()) {
+    required--;
+  }
+
+  const jsonSchema: JSONSchema = {
+    type: 'array',
+    prefixItems: items.map(toJsonSchema),
+    items: rest ? toJsonSchema(rest) : false,
+    minItems: required,
+  };
+
+  if (!rest) {
+    jsonSchema.maxItems = items.length;
+  }
+
+  return jsonSchema;
+}
+
+/**
+ * Convert MapSchema to JSON Schema
+ * Maps are represented as arrays of `[key, value]` entries, as accepted by `coerce()`.
+ */
+function convertMapSchema(schema: MapSchema<any, any>): JSONSchema {
+  const privateProps = schema as any;
+  const jsonSchema: JSONSchema = {
+    type: 'array',
+    items: {
+      type: 'array',
+      prefixItems: [toJsonSchema(privateProps._keySchema), toJsonSchema(privateProps._valueSchema)],
+      items: false,
+      minItems: 2,
+    },
+  };
+
+  if (privateProps._minSize !== undefined) {
+    jsonSchema.minItems = privateProps._minSize;
+  }
+
+  if (privateProps._maxSize !== undefined) {
+    jsonSchema.maxItems = privateProps._maxSize;
+  }
+
+  return jsonSchema;
+}
+
+/**
+ * Convert SetSchema to JSON Schema
+ */
+function convertSetSchema(schema: SetSchema<any>): JSONSchema {
+  const privateProps = schema as any;
+  const jsonSchema: JSONSchema = {
+    type: 'array',
+    items: toJsonSchema(privateProps._itemSchema),
+    uniqueItems: true,
+  };
+
+  if (privateProps._minSize !== undefined) {
+    jsonSchema.minItems = privateProps._minSize;
+  }
+
+  if (privateProps._maxSize !== undefined) {
+    jsonSchema.maxItems = privateProps._maxSize;
+  }
+
+  return jsonSchema;
+}
+
 /**
  * Convert from JSON Schema to a schema
  * Note: This is a simplified implementation that doesn't support all JSON Schema features
@@ -172,6 +449,26 @@ function convertArraySchema(schema: ArraySchema<any>): JSONSchema {
 export function fromJsonSchema(jsonSchema: JSONSchema): Schema<any> {
   const { s } = require('../index');
   
+  if (jsonSchema.const !== undefined) {
+    return s.literal(jsonSchema.const);
+  }
+
+  // Nullable types
+  if (Array.isArray(jsonSchema.type) && jsonSchema.type.includes('null')) {
+    const types = jsonSchema.type.filter(type => type !== 'null');
+    return types.length > 0
+      ? fromJsonSchema({ ...jsonSchema, type: types.length === 1 ? types[0] : types }).nullable()
+      : s.null();
+  }
+
+  if (jsonSchema.anyOf && jsonSchema.anyOf.length === 2) {
+    const nonNull = jsonSchema.anyOf.filter(option => option.type !== 'null');
+
+    if (nonNull.length === 1) {
+      return fromJsonSchema(nonNull[0]).nullable();
+    }
+  }
+  
   if (!jsonSchema.type) {
     // Default to object if type is not specified
     return s.object({});
@@ -204,6 +501,10 @@ export function fromJsonSchema(jsonSchema: JSONSchema): Schema<any> {
  */
 function convertJsonToStringSchema(jsonSchema: JSONSchema): Schema<string> {
   const { s } = require('../index');
+
+  if (jsonSchema.format === 'decimal') {
+    return s.decimal();
+  }
   let schema = s.string();
   
   if (jsonSchema.minLength !== undefined) {
@@ -231,6 +532,32 @@ function convertJsonToStringSchema(jsonSchema: JSONSchema): Schema<string> {
       case 'uuid':
         schema = schema.uuid();
         break;
+      case 'date-time':
+        // RFC 3339 date-times may carry an offset
+        schema = schema.datetime({ offset: true });
+        break;
+      case 'date':
+      case 'time':
+      case 'ipv4':
+      case 'ipv6':
+      case 'cidr':
+      case 'hostname':
+      case 'ulid':
+      case 'cuid2':
+      case 'nanoid':
+      case 'base64':
+      case 'base64url':
+      case 'jwt':
+      case 'emoji':
+        schema = schema[jsonSchema.format]();
+        break;
+      default: {
+        // Formats registered with registerFormat, unknown ones are ignored
+        const name = findFormatByJsonSchema(jsonSchema.format);
+        if (name !== undefined) {
+          schema = schema.format(name);
+        }
+      }
     }
   }
   
@@ -255,6 +582,15 @@ function convertJsonToNumberSchema(jsonSchema: JSONSchema): Schema<number> {
   if (jsonSchema.maximum !== undefined) {
     schema = schema.max(jsonSchema.maximum);
   }
+
+  // Draft 4 boolean exclusive bounds are not supported
+  if (typeof jsonSchema.exclusiveMinimum === 'number') {
+    schema = schema.gt(jsonSchema.exclusiveMinimum);
+  }
+
+  if (typeof jsonSchema.exclusiveMaximum === 'number') {
+    schema = schema.lt(jsonSchema.exclusiveMaximum);
+  }
   
   if (jsonSchema.multipleOf !== undefined) {
     schema = schema.multipleOf(jsonSchema.multipleOf);
@@ -268,9 +604,13 @@ function convertJsonToNumberSchema(jsonSchema: JSONSchema): Schema<number> {
  */
 function convertJsonToArraySchema(jsonSchema: JSONSchema): Schema<any[]> {
   const { s } = require('../index');
+
+  if (jsonSchema.prefixItems) {
+    return convertJsonToTupleSchema(jsonSchema);
+  }
   
   // Convert items schema or use a passthrough schema
-  const itemSchema = jsonSchema.items 
+  const itemSchema = typeof jsonSchema.items === 'object'
     ? fromJsonSchema(jsonSchema.items)
     : s.custom((value: any) => s.ok(value));
   
@@ -291,6 +631,30 @@ function convertJsonToArraySchema(jsonSchema: JSONSchema): Schema<any[]> {
   return schema;
 }
 
+/**
+ * Convert JSON Schema with `prefixItems` to TupleSchema
+ * Items after `minItems` become optional.
+ */
+function convertJsonToTupleSchema(jsonSchema: JSONSchema): Schema<any[]> {
+  const { s } = require('../index');
+  const minItems = jsonSchema.minItems !== undefined ? jsonSchema.minItems : 0;
+
+  const items = jsonSchema.prefixItems!.map((item, i) => {
+    const schema = fromJsonSchema(item);
+    return i < minItems ? schema : schema.optional();
+  });
+
+  let schema = s.tuple(items);
+
+  if (jsonSchema.items !== false) {
+    schema = schema.rest(typeof jsonSchema.items === 'object'
+      ? fromJsonSchema(jsonSchema.items)
+      : s.custom((value: any) => s.ok(value)));
+  }
+
+  return schema;
+}
+
 /**
  * Convert JSON Schema to ObjectSchema
  */
@@ -298,21 +662,25 @@ function convertJsonToObjectSchema(jsonSchema: JSONSchema): Schema<any> {
   const { s } = require('../index');
   const properties: Record<string, Schema<any>> = {};
   
-  // Convert each property
+  const required = jsonSchema.required || [];
+  
+  // Convert each property, the ones that are not required being optional
   if (jsonSchema.properties) {
     for (const [key, propSchema] of Object.entries(jsonSchema.properties)) {
-      properties[key] = fromJsonSchema(propSchema);
+      const propertySchema = fromJsonSchema(propSchema);
+      properties[key] = required.includes(key) ? propertySchema : propertySchema.optional();
     }
   }
   
   let schema = s.object(properties);
   
-  // Handle required properties
-  const required = jsonSchema.required || [];
-  const optional = Object.keys(properties).filter(key => !required.includes(key));
-  
-  if (optional.length > 0) {
-    schema = schema.optional(optional as any);
+  // Handle unknown properties
+  if (jsonSchema.additionalProperties === false) {
+    schema = schema.strict();
+  } else if (jsonSchema.additionalProperties === true) {
+    schema = schema.passthrough();
+  } else if (typeof jsonSchema.additionalProperties === 'object') {
+    schema = schema.catchall(fromJsonSchema(jsonSchema.additionalProperties));
   }
   
   return schema;
@@ -6,13 +6,6 @@ import { ValidationError } from '../core/errors';
  * Schema for any type
  */
 export class AnySchema extends Schema<any> {
-  /**
-   * Set this any as optional
-   */
-  optional(): Schema<any | undefined> {
-    return new OptionalAnySchema(this);
-  }
-
   /**
    * Parse and validate any data
    */
@@ -22,37 +15,17 @@ export class AnySchema extends Schema<any> {
   }
 
   /**
-   * Generate a partial schema
-   * For any schema, partial is the same
+   * Properties with this schema may be missing, as their type includes undefined
    */
-  partial(): Schema<any> {
-    return this;
+  isOptional(): boolean {
+    return true;
   }
-}
 
-/**
- * Schema for optional any
- */
-class OptionalAnySchema extends Schema<any | undefined> {
-  constructor(private readonly baseSchema: AnySchema) {
-    super();
-  }
-  
-  /**
-   * Parse and validate any data
-   */
-  _parse(data: unknown, options: ValidationOptions): Result<any | undefined, ValidationError> {
-    if (data === undefined) {
-      return ok(undefined);
-    }
-    
-    return this.baseSchema._parse(data, options);
-  }
-  
   /**
    * Generate a partial schema
+   * For any schema, partial is the same
    */
-  partial(): Schema<any | undefined> {
+  partial(): Schema<any> {
     return this;
   }
 }
@@ -1,6 +1,10 @@
-import { Schema, ValidationOptions } from '../core/schema';
+import { Schema, ValidationOptions, ChildParser, parseChild } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError, ValidationIssue } from '../core/errors';
+import { appendPath } from '../core/path';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { foldCase } from '../core/unicode';
+import { CompiledNode, FAIL, compileNode } from '../core/compile';
 
 /**
  * Schema for array validation
@@ -10,6 +14,7 @@ export class ArraySchema<T> extends Schema<T[]> {
   private readonly _minItems?: number;
   private readonly _maxItems?: number;
   private readonly _uniqueItems: boolean = false;
+  private readonly _uniqueCaseInsensitive: boolean = false;
   private readonly _defaultValue?: T[];
   
   constructor(itemSchema: Schema<T>, options: ArraySchemaOptions = {}) {
@@ -18,26 +23,30 @@ export class ArraySchema<T> extends Schema<T[]> {
     this._minItems = options.minItems;
     this._maxItems = options.maxItems;
     this._uniqueItems = options.uniqueItems || false;
+    this._uniqueCaseInsensitive = options.uniqueCaseInsensitive || false;
     this._defaultValue = options.default as T[] | undefined;
+    this._messages = collectMessages(options);
   }
   
   /**
    * Set minimum items validation
    */
-  min(count: number): ArraySchema<T> {
+  min(count: number, message?: CheckMessage): ArraySchema<T> {
     return new ArraySchema(this._itemSchema, {
       ...this._getOptions(),
       minItems: count,
+      messages: this.withMessage('array.min_length', message),
     });
   }
   
   /**
    * Set maximum items validation
    */
-  max(count: number): ArraySchema<T> {
+  max(count: number, message?: CheckMessage): ArraySchema<T> {
     return new ArraySchema(this._itemSchema, {
       ...this._getOptions(),
       maxItems: count,
+      messages: this.withMessage('array.max_length', message),
     });
   }
 
@@ -53,11 +62,18 @@ export class ArraySchema<T> extends Schema<T[]> {
   
   /**
    * Set uniqueness validation
+   * Strings are compared case-insensitively with `{ caseInsensitive: true }`.
    */
-  unique(): ArraySchema<T> {
+  unique(options?: CheckMessage | UniqueOptions): ArraySchema<T> {
+    const uniqueOptions: UniqueOptions = typeof options === 'object' && options !== null && 'caseInsensitive' in options
+      ? options
+      : { message: options as CheckMessage | undefined };
+
     return new ArraySchema(this._itemSchema, {
       ...this._getOptions(),
       uniqueItems: true,
+      uniqueCaseInsensitive: uniqueOptions.caseInsensitive,
+      messages: this.withMessage('array.unique', uniqueOptions.message),
     });
   }
 
@@ -73,16 +89,9 @@ export class ArraySchema<T> extends Schema<T[]> {
     
     // Pour les tableaux, Partial<T[]> signifie T[] | undefined
     // Donc nous créons un schéma de tableau optionnel avec des éléments partiels
-    return new ArraySchema<Partial<T>>(partialItemSchema, this._getOptions()).optional() as Schema<(T | undefined)[]>;
+    return new ArraySchema<Partial<T>>(partialItemSchema, this._getOptions()).optional() as Schema<any>;
   }
 
-  /**
-   * Make this array optional
-   */
-  optional(): Schema<T[] | undefined> {
-    return new OptionalArraySchema<T>(this._itemSchema, this._getOptions());
-  }
-  
   /**
    * Internal method to get current options
    */
@@ -91,7 +100,9 @@ export class ArraySchema<T> extends Schema<T[]> {
       minItems: this._minItems,
       maxItems: this._maxItems,
       uniqueItems: this._uniqueItems,
+      uniqueCaseInsensitive: this._uniqueCaseInsensitive,
       default: this._defaultValue,
+      messages: this._messages,
     };
   }
   
@@ -99,6 +110,33 @@ export class ArraySchema<T> extends Schema<T[]> {
    * Parse and validate array data
    */
   _parse(data: unknown, options: ValidationOptions): Result<T[], ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate array data asynchronously
+   * Items are validated concurrently, then assembled as in `_parse`
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T[], ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+
+    if (Array.isArray(data)) {
+      await Promise.all(data.map(async (item, i) => {
+        settled.set(i.toString(), await this._itemSchema._parseAsync(item, {
+          ...options,
+          path: appendPath(path, i),
+        }));
+      }));
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the array constraints, delegating each item to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<T[], ValidationError> {
     const path = options.path || [];
 
     // Handle undefined with default value
@@ -107,7 +145,7 @@ export class ArraySchema<T> extends Schema<T[]> {
         return ok([...this._defaultValue]); // Retourner une copie de la valeur par défaut
       }
 
-      return err(ValidationError.typeMismatch('array', data, path));
+      return err(this.invalidType('array', data, options));
     }
 
     // Handle null (si vous voulez traiter null comme undefined)
@@ -116,12 +154,12 @@ export class ArraySchema<T> extends Schema<T[]> {
         return ok([...this._defaultValue]);
       }
 
-      return err(ValidationError.typeMismatch('array', data, path));
+      return err(this.invalidType('array', data, options));
     }
 
     // Type check
     if (!Array.isArray(data)) {
-      return err(ValidationError.typeMismatch('array', data, path));
+      return err(this.invalidType('array', data, options));
     }
 
     const arr = data as unknown[];
@@ -130,18 +168,18 @@ export class ArraySchema<T> extends Schema<T[]> {
 
     // Length validations
     if (this._minItems !== undefined && arr.length < this._minItems) {
-      issues.push(this.issue(
-        `Array must contain at least ${this._minItems} item(s)`,
+      issues.push(this.localizedIssue(
         'array.min_length',
+        options,
         path,
         { min: this._minItems, actual: arr.length }
       ));
     }
 
     if (this._maxItems !== undefined && arr.length > this._maxItems) {
-      issues.push(this.issue(
-        `Array must contain at most ${this._maxItems} item(s)`,
+      issues.push(this.localizedIssue(
         'array.max_length',
+        options,
         path,
         { max: this._maxItems, actual: arr.length }
       ));
@@ -153,29 +191,18 @@ export class ArraySchema<T> extends Schema<T[]> {
       const duplicates = [];
 
       for (let i = 0; i < arr.length; i++) {
-        // Pour les types primitifs, nous pouvons utiliser Set directement
-        if (typeof arr[i] === 'string' || typeof arr[i] === 'number' || typeof arr[i] === 'boolean') {
-          if (seen.has(arr[i])) {
-            duplicates.push(i);
-          } else {
-            seen.add(arr[i]);
-          }
+        const key = this._uniqueKey(arr[i]);
+        if (seen.has(key)) {
+          duplicates.push(i);
         } else {
-          // Pour les objets, nous devrions utiliser une méthode d'égalité plus sophistiquée
-          // mais pour les tests de base, utilisons la sérialisation JSON
-          const strValue = JSON.stringify(arr[i]);
-          if (seen.has(strValue)) {
-            duplicates.push(i);
-          } else {
-            seen.add(strValue);
-          }
+          seen.add(key);
         }
       }
 
       if (duplicates.length > 0) {
-        issues.push(this.issue(
-          `Array items must be unique, found duplicates at positions: ${duplicates.join(', ')}`,
+        issues.push(this.localizedIssue(
           'array.unique',
+          options,
           path,
           { duplicates }
         ));
@@ -184,11 +211,11 @@ export class ArraySchema<T> extends Schema<T[]> {
 
     // Validate items
     for (let i = 0; i < arr.length; i++) {
-      const itemPath = [...path, i.toString()];
-      const itemResult = this._itemSchema.safeParse(arr[i], {
+      const itemPath = appendPath(path, i);
+      const itemResult = parse(this._itemSchema, arr[i], {
         ...options,
         path: itemPath,
-      });
+      }, i.toString());
 
       if (itemResult.isOk()) {
         result.push(itemResult.unwrap());
@@ -201,53 +228,115 @@ export class ArraySchema<T> extends Schema<T[]> {
       }
     }
 
-    if (issues.length > 0) {
-      return err(this.validationError(issues));
-    }
-
-    return ok(result);
+    return this.settle(result, issues, options);
   }
-}
-
 
-/**
- * Schema for optional arrays
- */
-class OptionalArraySchema<T> extends Schema<T[] | undefined> {
-  private readonly _arraySchema: ArraySchema<T>;
-  
-  constructor(itemSchema: Schema<T>, options: ArraySchemaOptions = {}) {
-    super();
-    this._arraySchema = new ArraySchema(itemSchema, options);
-  }
-  
   /**
-   * Parse and validate array data
+   * Value compared by the uniqueness check
    */
-  _parse(data: unknown, options: ValidationOptions): Result<T[] | undefined, ValidationError> {
-    if (data === undefined || data === null) {
-      return ok(undefined);
+  private _uniqueKey(item: unknown): unknown {
+    // Pour les types primitifs, nous pouvons utiliser Set directement
+    if (typeof item === 'string') {
+      return this._uniqueCaseInsensitive ? foldCase(item) : item;
     }
-    
-    return this._arraySchema._parse(data, options);
+
+    if (typeof item === 'number' || typeof item === 'boolean') {
+      return item;
+    }
+
+    // Pour les objets, nous devrions utiliser une méthode d'égalité plus sophistiquée
+    // mais pour les tests de base, utilisons la sérialisation JSON
+    return JSON.stringify(item);
   }
-  
+
   /**
-   * Generate a partial schema
+   * Compiled validator, checking the length and uniqueness before the items
    */
-  partial(): Schema<Partial<T[] | undefined>> {
-    // Pour les tableaux optionnels, Partial<T[] | undefined> signifie le même type
-    return this;
+  _compile(): CompiledNode {
+    const item = compileNode(this._itemSchema);
+    const minItems = this._minItems;
+    const maxItems = this._maxItems;
+    const defaultValue = this._defaultValue;
+
+    const hasDuplicates = (items: unknown[]): boolean => {
+      const seen = new Set();
+
+      for (const value of items) {
+        const key = this._uniqueKey(value);
+
+        if (seen.has(key)) {
+          return true;
+        }
+
+        seen.add(key);
+      }
+
+      return false;
+    };
+
+    return (data, ctx) => {
+      if (data === undefined || data === null) {
+        return defaultValue !== undefined ? [...defaultValue] : FAIL;
+      }
+
+      if (!Array.isArray(data)) {
+        return FAIL;
+      }
+
+      if (minItems !== undefined && data.length < minItems) {
+        return FAIL;
+      }
+
+      if (maxItems !== undefined && data.length > maxItems) {
+        return FAIL;
+      }
+
+      if (this._uniqueItems && data.length > 1 && hasDuplicates(data)) {
+        return FAIL;
+      }
+
+      const result = new Array(data.length);
+
+      for (let i = 0; i < data.length; i++) {
+        ctx.path.push(i);
+        const parsed = item(data[i], ctx);
+        ctx.path.pop();
+
+        if (parsed === FAIL) {
+          return FAIL;
+        }
+
+        result[i] = parsed;
+      }
+
+      return result;
+    };
   }
 }
 
+/**
+ * Options of `unique()`
+ */
+export interface UniqueOptions {
+  /**
+   * Compare strings case-insensitively (`'Paris'` duplicates `'PARIS'`)
+   */
+  caseInsensitive?: boolean;
+  message?: CheckMessage;
+}
+
 /**
  * Options for array schema
  */
-export interface ArraySchemaOptions<T = unknown> {
+export interface ArraySchemaOptions<T = unknown> extends SchemaMessageOptions {
   minItems?: number;
   maxItems?: number;
   uniqueItems?: boolean;
+
+  /**
+   * Compare strings case-insensitively in the uniqueness check
+   */
+  uniqueCaseInsensitive?: boolean;
   default?: T[];
   stripUnknown?: boolean;
 }
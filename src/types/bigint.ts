@@ -0,0 +1,222 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok, err } from '../core/result';
+import { ValidationError, ValidationIssue } from '../core/errors';
+import { coerceBigInt } from '../core/coerce';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Sign constraint of a bigint
+ */
+export type BigIntSign = 'positive' | 'negative' | 'nonnegative' | 'nonpositive';
+
+/**
+ * Schema for bigint validation
+ * Issue params hold bigints as strings so that issues stay JSON-serializable.
+ */
+export class BigIntSchema extends Schema<bigint> {
+  private readonly _min?: bigint;
+  private readonly _max?: bigint;
+  private readonly _sign?: BigIntSign;
+  private readonly _optional: boolean = false;
+  private readonly _coerce: boolean = false;
+  private readonly _default?: bigint;
+
+  constructor(options: BigIntSchemaOptions = {}) {
+    super();
+    this._min = options.min;
+    this._max = options.max;
+    this._sign = options.sign;
+    this._optional = options.optional || false;
+    this._coerce = options.coerce || false;
+    this._default = options.default;
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Set minimum value validation (inclusive)
+   */
+  min(value: bigint | number, message?: CheckMessage): BigIntSchema {
+    return new BigIntSchema({
+      ...this._getOptions(),
+      min: BigInt(value),
+      messages: this.withMessage('bigint.min', message),
+    });
+  }
+
+  /**
+   * Set maximum value validation (inclusive)
+   */
+  max(value: bigint | number, message?: CheckMessage): BigIntSchema {
+    return new BigIntSchema({
+      ...this._getOptions(),
+      max: BigInt(value),
+      messages: this.withMessage('bigint.max', message),
+    });
+  }
+
+  /**
+   * Validate bigint is positive (> 0)
+   */
+  positive(message?: CheckMessage): BigIntSchema {
+    return this._withSign('positive', message);
+  }
+
+  /**
+   * Validate bigint is negative (< 0)
+   */
+  negative(message?: CheckMessage): BigIntSchema {
+    return this._withSign('negative', message);
+  }
+
+  /**
+   * Validate bigint is positive or zero (>= 0)
+   */
+  nonnegative(message?: CheckMessage): BigIntSchema {
+    return this._withSign('nonnegative', message);
+  }
+
+  /**
+   * Validate bigint is negative or zero (<= 0)
+   */
+  nonpositive(message?: CheckMessage): BigIntSchema {
+    return this._withSign('nonpositive', message);
+  }
+
+  /**
+   * Set a default value for the bigint
+   */
+  default(value: bigint): BigIntSchema {
+    return new BigIntSchema({
+      ...this._getOptions(),
+      default: value,
+    });
+  }
+
+  /**
+   * Replace the sign constraint, signs are mutually exclusive
+   */
+  private _withSign(sign: BigIntSign, message?: CheckMessage): BigIntSchema {
+    return new BigIntSchema({
+      ...this._getOptions(),
+      sign,
+      messages: this.withMessage(`bigint.${sign}`, message),
+    });
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): BigIntSchemaOptions {
+    return {
+      min: this._min,
+      max: this._max,
+      sign: this._sign,
+      optional: this._optional,
+      coerce: this._coerce,
+      default: this._default,
+      messages: this._messages,
+    };
+  }
+
+  /**
+   * Parse and validate bigint data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<bigint, ValidationError> {
+    if (this._coerce || options.coerce) {
+      data = coerceBigInt(data);
+    }
+
+    const path = options.path || [];
+
+    if (data === undefined && this._default !== undefined) {
+      return ok(this._default);
+    }
+
+    // Type check
+    if (typeof data !== 'bigint') {
+      return err(this.invalidType('bigint', data, options));
+    }
+
+    const value = data;
+    const issues: ValidationIssue[] = [];
+
+    // Sign validation
+    if (this._sign !== undefined && !matchesSign(value, this._sign)) {
+      issues.push(this.localizedIssue(
+        `bigint.${this._sign}`,
+        options,
+        path,
+        { value: value.toString() }
+      ));
+    }
+
+    // Min validation
+    if (this._min !== undefined && value < this._min) {
+      issues.push(this.localizedIssue(
+        'bigint.min',
+        options,
+        path,
+        { min: this._min.toString(), value: value.toString() }
+      ));
+    }
+
+    // Max validation
+    if (this._max !== undefined && value > this._max) {
+      issues.push(this.localizedIssue(
+        'bigint.max',
+        options,
+        path,
+        { max: this._max.toString(), value: value.toString() }
+      ));
+    }
+
+    return this.settle(value, issues, options);
+  }
+
+  /**
+   * Generate a partial schema
+   * For primitives like bigint, partial means the value is now optional
+   */
+  partial(): Schema<bigint | undefined> {
+    return this.optional();
+  }
+}
+
+/**
+ * Check the sign of a bigint
+ */
+function matchesSign(value: bigint, sign: BigIntSign): boolean {
+  switch (sign) {
+    case 'positive':
+      return value > BigInt(0);
+    case 'negative':
+      return value < BigInt(0);
+    case 'nonnegative':
+      return value >= BigInt(0);
+    case 'nonpositive':
+      return value <= BigInt(0);
+  }
+}
+
+/**
+ * Options for bigint schema
+ */
+export interface BigIntSchemaOptions extends SchemaMessageOptions {
+  min?: bigint;
+  max?: bigint;
+  sign?: BigIntSign;
+  optional?: boolean;
+  default?: bigint;
+
+  /**
+   * Convert the input before validation (see `s.coerce`)
+   */
+  coerce?: boolean;
+}
+
+/**
+ * Create a bigint schema
+ */
+export function bigint(options: BigIntSchemaOptions = {}): BigIntSchema {
+  return new BigIntSchema(options);
+}
@@ -1,18 +1,23 @@
 import { Schema, ValidationOptions } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError } from '../core/errors';
+import { coerceBoolean } from '../core/coerce';
+import { SchemaMessageOptions, collectMessages } from '../core/messages';
 
 /**
  * Schema for boolean validation
  */
 export class BooleanSchema extends Schema<boolean> {
   private readonly _optional: boolean = false;
+  private readonly _coerce: boolean = false;
   private readonly _default?: boolean;
   
   constructor(options: BooleanSchemaOptions = {}) {
     super();
     this._optional = options.optional || false;
+    this._coerce = options.coerce || false;
     this._default = options.default;
+    this._messages = collectMessages(options);
   }
 
   /**
@@ -25,20 +30,15 @@ export class BooleanSchema extends Schema<boolean> {
     });
   }
 
-  /**
-   * Set this boolean as optional
-   */
-  optional(): Schema<boolean | undefined> {
-    return new OptionalBooleanSchema(this);
-  }
-  
   /**
    * Internal method to get current options
    */
   private _getOptions(): BooleanSchemaOptions {
     return {
       optional: this._optional,
+      coerce: this._coerce,
       default: this._default,
+      messages: this._messages,
     };
   }
 
@@ -46,7 +46,9 @@ export class BooleanSchema extends Schema<boolean> {
    * Parse and validate boolean data
    */
   _parse(data: unknown, options: ValidationOptions): Result<boolean, ValidationError> {
-    const path = options.path || [];
+    if (this._coerce || options.coerce) {
+      data = coerceBoolean(data);
+    }
 
     // Si la valeur est undefined et qu'il y a une valeur par défaut, utilisez-la
     if (data === undefined && this._default !== undefined) {
@@ -55,7 +57,7 @@ export class BooleanSchema extends Schema<boolean> {
   
     // Type check
     if (typeof data !== 'boolean') {
-      return err(ValidationError.typeMismatch('boolean', data, path));
+      return err(this.invalidType('boolean', data, options));
     }
 
     return ok(data);
@@ -70,39 +72,17 @@ export class BooleanSchema extends Schema<boolean> {
   }
 }
 
-/**
- * Schema for optional boolean
- */
-class OptionalBooleanSchema extends Schema<boolean | undefined> {
-  constructor(private readonly baseSchema: BooleanSchema) {
-    super();
-  }
-  
-  /**
-   * Parse and validate boolean data
-   */
-  _parse(data: unknown, options: ValidationOptions): Result<boolean | undefined, ValidationError> {
-    if (data === undefined || data === null) {
-      return ok(undefined);
-    }
-    
-    return this.baseSchema._parse(data, options);
-  }
-  
-  /**
-   * Generate a partial schema
-   */
-  partial(): Schema<boolean | undefined> {
-    return this;
-  }
-}
-
 /**
  * Options for boolean schema
  */
-export interface BooleanSchemaOptions {
+export interface BooleanSchemaOptions extends SchemaMessageOptions {
   optional?: boolean;
   default?: boolean;
+
+  /**
+   * Convert the input before validation (see `s.coerce`)
+   */
+  coerce?: boolean;
 }
 
 /**
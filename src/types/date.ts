@@ -0,0 +1,185 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok, err } from '../core/result';
+import { ValidationError, ValidationIssue } from '../core/errors';
+import { coerceDate } from '../core/coerce';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * ISO 8601 date or date-time string
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Whether the YYYY-MM-DD part of an ISO string is a day of the calendar
+ * `new Date()` rolls days past the end of the month over ("2024-02-30" is March 1st).
+ */
+function isCalendarDate(text: string): boolean {
+  const year = Number(text.slice(0, 4));
+  const month = Number(text.slice(5, 7)) - 1;
+  const day = Number(text.slice(8, 10));
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, day);
+
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month && date.getUTCDate() === day;
+}
+
+/**
+ * Date accepted as a bound: a Date, an ISO string or an epoch in milliseconds
+ */
+export type DateInput = Date | string | number;
+
+/**
+ * Schema for date validation
+ * Accepts Date instances, ISO 8601 strings and epoch numbers (milliseconds).
+ */
+export class DateSchema extends Schema<Date> {
+  private readonly _minDate?: Date;
+  private readonly _maxDate?: Date;
+  private readonly _optional: boolean = false;
+  private readonly _coerce: boolean = false;
+  private readonly _default?: Date;
+
+  constructor(options: DateSchemaOptions = {}) {
+    super();
+    this._minDate = options.min;
+    this._maxDate = options.max;
+    this._optional = options.optional || false;
+    this._coerce = options.coerce || false;
+    this._default = options.default;
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Set the earliest allowed date (inclusive)
+   */
+  min(value: DateInput, message?: CheckMessage): DateSchema {
+    return new DateSchema({
+      ...this._getOptions(),
+      min: new Date(value),
+      messages: this.withMessage('date.min', message),
+    });
+  }
+
+  /**
+   * Set the latest allowed date (inclusive)
+   */
+  max(value: DateInput, message?: CheckMessage): DateSchema {
+    return new DateSchema({
+      ...this._getOptions(),
+      max: new Date(value),
+      messages: this.withMessage('date.max', message),
+    });
+  }
+
+  /**
+   * Set a default value for the date
+   */
+  default(value: Date): DateSchema {
+    return new DateSchema({
+      ...this._getOptions(),
+      default: value,
+    });
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): DateSchemaOptions {
+    return {
+      min: this._minDate,
+      max: this._maxDate,
+      optional: this._optional,
+      coerce: this._coerce,
+      default: this._default,
+      messages: this._messages,
+    };
+  }
+
+  /**
+   * Parse and validate date data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<Date, ValidationError> {
+    if (this._coerce || options.coerce) {
+      data = coerceDate(data);
+    }
+
+    const path = options.path || [];
+
+    if (data === undefined && this._default !== undefined) {
+      return ok(new Date(this._default.getTime()));
+    }
+
+    // Type check, ISO strings and epoch numbers are converted
+    let value: Date;
+
+    if (data instanceof Date) {
+      value = data;
+    } else if (typeof data === 'string' && ISO_DATE_PATTERN.test(data)) {
+      value = isCalendarDate(data) ? new Date(data) : new Date(NaN);
+    } else if (typeof data === 'number' && Number.isFinite(data)) {
+      value = new Date(data);
+    } else {
+      return err(this.invalidType('date', data, options));
+    }
+
+    if (Number.isNaN(value.getTime())) {
+      return err(this.validationError([
+        this.localizedIssue('date.invalid', options, path),
+      ]));
+    }
+
+    const issues: ValidationIssue[] = [];
+
+    // Min validation
+    if (this._minDate !== undefined && value.getTime() < this._minDate.getTime()) {
+      issues.push(this.localizedIssue(
+        'date.min',
+        options,
+        path,
+        { min: this._minDate.toISOString(), value: value.toISOString() }
+      ));
+    }
+
+    // Max validation
+    if (this._maxDate !== undefined && value.getTime() > this._maxDate.getTime()) {
+      issues.push(this.localizedIssue(
+        'date.max',
+        options,
+        path,
+        { max: this._maxDate.toISOString(), value: value.toISOString() }
+      ));
+    }
+
+    return this.settle(value, issues, options);
+  }
+
+  /**
+   * Generate a partial schema
+   * For primitives like date, partial means the value is now optional
+   */
+  partial(): Schema<Date | undefined> {
+    return this.optional();
+  }
+}
+
+/**
+ * Options for date schema
+ */
+export interface DateSchemaOptions extends SchemaMessageOptions {
+  min?: Date;
+  max?: Date;
+  optional?: boolean;
+  default?: Date;
+
+  /**
+   * Convert the input before validation (see `s.coerce`)
+   */
+  coerce?: boolean;
+}
+
+/**
+ * Create a date schema
+ */
+export function date(options: DateSchemaOptions = {}): DateSchema {
+  return new DateSchema(options);
+}
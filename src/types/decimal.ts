@@ -0,0 +1,327 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, err } from '../core/result';
+import { ValidationError, ValidationIssue } from '../core/errors';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Decimal in plain or exponent notation, e.g. "-12.50" or "1.5e3"
+ */
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Largest exponent accepted, so that "1e999999999" is not expanded
+ */
+const MAX_EXPONENT = 1000;
+
+/**
+ * Value accepted as a decimal or as a bound
+ */
+export type DecimalInput = string | number | bigint;
+
+/**
+ * Arbitrary precision decimal class built from the normalized string, e.g. Decimal.js or Big.js
+ */
+export type DecimalClass<D> = new (value: string) => D;
+
+/**
+ * Decimal split into its digits, without leading or trailing zeros
+ */
+interface DecimalParts {
+  negative: boolean;
+  integer: string;
+  fraction: string;
+}
+
+/**
+ * Split a decimal string, null when it is not one
+ */
+function parseDecimal(text: string): DecimalParts | null {
+  const match = DECIMAL_PATTERN.exec(text.trim());
+  if (!match || (match[2] === '' && !match[3]) || Math.abs(Number(match[4] || 0)) > MAX_EXPONENT) {
+    return null;
+  }
+
+  // Move the decimal point by the exponent
+  let digits = match[2] + (match[3] || '');
+  let point = match[2].length + Number(match[4] || 0);
+
+  if (point < 0) {
+    digits = '0'.repeat(-point) + digits;
+    point = 0;
+  } else if (point > digits.length) {
+    digits += '0'.repeat(point - digits.length);
+  }
+
+  const integer = digits.slice(0, point).replace(/^0+/, '') || '0';
+  const fraction = digits.slice(point).replace(/0+$/, '');
+
+  return { negative: match[1] === '-' && (integer !== '0' || fraction !== ''), integer, fraction };
+}
+
+/**
+ * Decimal string of the parts, with the fraction padded to `scale` digits
+ */
+function formatDecimal(parts: DecimalParts, scale = 0): string {
+  const fraction = parts.fraction.padEnd(scale, '0');
+  return `${parts.negative ? '-' : ''}${parts.integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Compare two decimals digit by digit, without converting them to floats
+ */
+function compareDecimals(a: DecimalParts, b: DecimalParts): number {
+  if (a.negative !== b.negative) {
+    return a.negative ? -1 : 1;
+  }
+
+  const sign = a.negative ? -1 : 1;
+
+  if (a.integer.length !== b.integer.length) {
+    return a.integer.length > b.integer.length ? sign : -sign;
+  }
+
+  const length = Math.max(a.fraction.length, b.fraction.length);
+  const left = a.integer + a.fraction.padEnd(length, '0');
+  const right = b.integer + b.fraction.padEnd(length, '0');
+
+  return left === right ? 0 : (left > right ? sign : -sign);
+}
+
+/**
+ * Split a bound given to a builder method
+ */
+function parseBound(value: DecimalInput): DecimalParts {
+  const parts = parseDecimal(String(value));
+  if (!parts) {
+    throw new Error(`Invalid decimal bound: ${String(value)}`);
+  }
+
+  return parts;
+}
+
+/**
+ * Schema for arbitrary precision decimals, such as amounts of money
+ * Accepts strings and numbers, checks them without float rounding and outputs
+ * a normalized string ("1.5e3" -> "1500"), or an instance of the class set with `as()`.
+ */
+export class DecimalSchema<T = string> extends Schema<T> {
+  private readonly _precision?: number;
+  private readonly _scale?: number;
+  private readonly _min?: string;
+  private readonly _max?: string;
+  private readonly _decimalClass?: DecimalClass<T>;
+  private readonly _default?: string;
+
+  constructor(options: DecimalSchemaOptions<T> = {}) {
+    super();
+    this._precision = options.precision;
+    this._scale = options.scale;
+    this._min = options.min !== undefined ? formatDecimal(parseBound(options.min)) : undefined;
+    this._max = options.max !== undefined ? formatDecimal(parseBound(options.max)) : undefined;
+    this._decimalClass = options.decimalClass;
+    this._default = options.default !== undefined ? String(options.default) : undefined;
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Set the maximum number of significant digits, as the p of NUMERIC(p, s)
+   */
+  precision(digits: number, message?: CheckMessage): DecimalSchema<T> {
+    return new DecimalSchema<T>({
+      ...this._getOptions(),
+      precision: digits,
+      messages: this.withMessage('decimal.precision', message),
+    });
+  }
+
+  /**
+   * Set the maximum number of digits after the point, as the s of NUMERIC(p, s)
+   * Parsed values are padded to this scale ("1.5" -> "1.50").
+   */
+  scale(digits: number, message?: CheckMessage): DecimalSchema<T> {
+    return new DecimalSchema<T>({
+      ...this._getOptions(),
+      scale: digits,
+      messages: this.withMessage('decimal.scale', message),
+    });
+  }
+
+  /**
+   * Set minimum value validation (inclusive)
+   */
+  min(value: DecimalInput, message?: CheckMessage): DecimalSchema<T> {
+    return new DecimalSchema<T>({
+      ...this._getOptions(),
+      min: value,
+      messages: this.withMessage('decimal.min', message),
+    });
+  }
+
+  /**
+   * Set maximum value validation (inclusive)
+   */
+  max(value: DecimalInput, message?: CheckMessage): DecimalSchema<T> {
+    return new DecimalSchema<T>({
+      ...this._getOptions(),
+      max: value,
+      messages: this.withMessage('decimal.max', message),
+    });
+  }
+
+  /**
+   * Set a default value for the decimal
+   */
+  default(value: DecimalInput): DecimalSchema<T> {
+    return new DecimalSchema<T>({
+      ...this._getOptions(),
+      default: value,
+    });
+  }
+
+  /**
+   * Output instances of a decimal class instead of strings
+   * Instances of the class are also accepted as input.
+   */
+  as<D>(decimalClass: DecimalClass<D>): DecimalSchema<D> {
+    return new DecimalSchema<D>({
+      ...this._getOptions(),
+      decimalClass,
+    } as DecimalSchemaOptions<D>);
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): DecimalSchemaOptions<T> {
+    return {
+      precision: this._precision,
+      scale: this._scale,
+      min: this._min,
+      max: this._max,
+      decimalClass: this._decimalClass,
+      default: this._default,
+      messages: this._messages,
+    };
+  }
+
+  /**
+   * Parse and validate decimal data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const path = options.path || [];
+
+    if (data === undefined && this._default !== undefined) {
+      data = this._default;
+    }
+
+    // Type check, decimal class instances are read from their string form
+    let text: string;
+
+    if (typeof data === 'string') {
+      text = data;
+    } else if ((typeof data === 'number' && Number.isFinite(data)) || typeof data === 'bigint') {
+      text = String(data);
+    } else if (this._decimalClass && data instanceof this._decimalClass) {
+      text = String(data);
+    } else {
+      return err(this.invalidType('decimal', data, options));
+    }
+
+    const parts = parseDecimal(text);
+
+    if (!parts) {
+      return err(this.validationError([
+        this.localizedIssue('decimal.invalid', options, path),
+      ]));
+    }
+
+    const issues: ValidationIssue[] = [];
+    const value = formatDecimal(parts);
+
+    // Scale validation
+    if (this._scale !== undefined && parts.fraction.length > this._scale) {
+      issues.push(this.localizedIssue(
+        'decimal.scale',
+        options,
+        path,
+        { scale: this._scale, actual: parts.fraction.length, value }
+      ));
+    }
+
+    // Precision validation, counting the digits the value takes at the schema scale
+    const integerDigits = parts.integer === '0' ? 0 : parts.integer.length;
+    const digits = integerDigits + Math.max(parts.fraction.length, this._scale || 0);
+
+    if (this._precision !== undefined && digits > this._precision) {
+      issues.push(this.localizedIssue(
+        'decimal.precision',
+        options,
+        path,
+        { precision: this._precision, actual: digits, value }
+      ));
+    }
+
+    // Min validation
+    if (this._min !== undefined && compareDecimals(parts, parseBound(this._min)) < 0) {
+      issues.push(this.localizedIssue(
+        'decimal.min',
+        options,
+        path,
+        { min: this._min, value }
+      ));
+    }
+
+    // Max validation
+    if (this._max !== undefined && compareDecimals(parts, parseBound(this._max)) > 0) {
+      issues.push(this.localizedIssue(
+        'decimal.max',
+        options,
+        path,
+        { max: this._max, value }
+      ));
+    }
+
+    const normalized = formatDecimal(parts, this._scale);
+    const output = this._decimalClass ? new this._decimalClass(normalized) : normalized as unknown as T;
+
+    return this.settle(output, issues, options);
+  }
+
+  /**
+   * Generate a partial schema
+   * For primitives like decimal, partial means the value is now optional
+   */
+  partial(): Schema<T | undefined> {
+    return this.optional();
+  }
+}
+
+/**
+ * Options for decimal schema
+ */
+export interface DecimalSchemaOptions<T = string> extends SchemaMessageOptions {
+  /**
+   * Maximum number of significant digits
+   */
+  precision?: number;
+
+  /**
+   * Maximum number of digits after the point
+   */
+  scale?: number;
+  min?: DecimalInput;
+  max?: DecimalInput;
+  default?: DecimalInput;
+
+  /**
+   * Class instantiated with the normalized string (see `as()`)
+   */
+  decimalClass?: DecimalClass<T>;
+}
+
+/**
+ * Create a decimal schema
+ */
+export function decimal(options: DecimalSchemaOptions = {}): DecimalSchema {
+  return new DecimalSchema(options);
+}
@@ -1,13 +1,25 @@
 import { Schema, ValidationOptions } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError } from '../core/errors';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { foldCase } from '../core/unicode';
+import { CompiledNode, FAIL } from '../core/compile';
 
 /**
  * Schema for enum validation
  */
 export class EnumSchema<T extends readonly any[]> extends Schema<T[number]> {
-  constructor(private readonly values: T) {
+  private readonly _caseInsensitive: boolean;
+
+  constructor(private readonly values: T, options: EnumSchemaOptions = {}) {
     super();
+    this._caseInsensitive = options.caseInsensitive || false;
+    this._messages = collectMessages({
+      ...options,
+      messages: options.message !== undefined
+        ? { ...options.messages, 'enum.invalid': options.message }
+        : options.messages,
+    });
   }
 
   /**
@@ -16,13 +28,28 @@ export class EnumSchema<T extends readonly any[]> extends Schema<T[number]> {
   _parse(data: unknown, options: ValidationOptions): Result<T[number], ValidationError> {
     const path = options.path || [];
 
+    // Case-insensitive matches resolve to the declared value
+    if (this._caseInsensitive && typeof data === 'string' && !this.values.includes(data)) {
+      const folded = foldCase(data);
+      const match = this.values.find(value => typeof value === 'string' && foldCase(value) === folded);
+
+      if (match !== undefined) {
+        return ok(match);
+      }
+    }
+
     // Check if value is in enum
     if (!this.values.includes(data)) {
+      // Missing value with a custom required message
+      if (data === undefined && this._messages.required !== undefined) {
+        return err(this.invalidType('enum', data, options));
+      }
+
       return err(
         new ValidationError([
-          this.issue(
-            `Invalid enum value. Expected one of: ${this.values.join(', ')}`,
+          this.localizedIssue(
             'enum.invalid',
+            options,
             path,
             { expected: this.values, received: data }
           ),
@@ -33,6 +60,32 @@ export class EnumSchema<T extends readonly any[]> extends Schema<T[number]> {
     return ok(data as T[number]);
   }
 
+  /**
+   * Compiled validator, looking values up in a set
+   */
+  _compile(): CompiledNode {
+    const values = new Set<unknown>(this.values);
+
+    if (this._caseInsensitive) {
+      const folded = new Map<string, unknown>();
+      values.forEach(value => {
+        if (typeof value === 'string' && !folded.has(foldCase(value))) {
+          folded.set(foldCase(value), value);
+        }
+      });
+
+      return (data) => {
+        if (values.has(data)) {
+          return data;
+        }
+
+        return typeof data === 'string' && folded.has(foldCase(data)) ? folded.get(foldCase(data)) : FAIL;
+      };
+    }
+
+    return (data) => values.has(data) ? data : FAIL;
+  }
+
   /**
    * Generate a partial schema
    * For enums, partial is the same as the original
@@ -42,11 +95,27 @@ export class EnumSchema<T extends readonly any[]> extends Schema<T[number]> {
   }
 }
 
+/**
+ * Options for enum schema
+ */
+export interface EnumSchemaOptions extends SchemaMessageOptions {
+  /**
+   * Message used when the value is not one of the enum values
+   */
+  message?: CheckMessage;
+
+  /**
+   * Accept strings differing from a value only by case, parsed as that value
+   */
+  caseInsensitive?: boolean;
+}
+
 /**
  * Create an enum schema
  */
 export function createEnum<T extends readonly any[]>(
-  values: T
+  values: T,
+  options: EnumSchemaOptions = {}
 ): EnumSchema<T> {
-  return new EnumSchema(values);
+  return new EnumSchema(values, options);
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok, err } from '../core/result';
+import { ValidationError } from '../core/errors';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { CompiledNode, FAIL } from '../core/compile';
+
+/**
+ * Values usable as literals
+ */
+export type LiteralValue = string | number | boolean | null;
+
+/**
+ * Schema for a single literal value
+ */
+export class LiteralSchema<T extends LiteralValue> extends Schema<T> {
+  constructor(private readonly _value: T, options: LiteralSchemaOptions = {}) {
+    super();
+    this._messages = collectMessages({
+      ...options,
+      messages: options.message !== undefined
+        ? { ...options.messages, 'literal.invalid': options.message }
+        : options.messages,
+    });
+  }
+
+  /**
+   * The accepted value
+   */
+  get value(): T {
+    return this._value;
+  }
+
+  /**
+   * Parse and validate literal value
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const path = options.path || [];
+
+    if (data !== this._value) {
+      // Missing value with a custom required message
+      if (data === undefined && this._messages.required !== undefined) {
+        return err(this.invalidType(String(this._value), data, options));
+      }
+
+      return err(
+        new ValidationError([
+          this.localizedIssue(
+            'literal.invalid',
+            options,
+            path,
+            { expected: this._value, received: data }
+          ),
+        ])
+      );
+    }
+
+    return ok(data as T);
+  }
+
+  /**
+   * Compiled validator, comparing with the literal
+   */
+  _compile(): CompiledNode {
+    const value = this._value;
+
+    return (data) => data === value ? data : FAIL;
+  }
+
+  /**
+   * Generate a partial schema
+   * For literals, partial is the same as the original
+   */
+  partial(): Schema<T> {
+    return this;
+  }
+}
+
+/**
+ * Options for literal schema
+ */
+export interface LiteralSchemaOptions extends SchemaMessageOptions {
+  /**
+   * Message used when the value is not the literal
+   */
+  message?: CheckMessage;
+}
+
+/**
+ * Create a literal schema
+ */
+export function literal<T extends LiteralValue>(
+  value: T,
+  options: LiteralSchemaOptions = {}
+): LiteralSchema<T> {
+  return new LiteralSchema(value, options);
+}
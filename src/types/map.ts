@@ -0,0 +1,219 @@
+import { Schema, ValidationOptions, ChildParser, parseChild } from '../core/schema';
+import { Result, err } from '../core/result';
+import { ValidationError, ValidationIssue } from '../core/errors';
+import { appendPath } from '../core/path';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Schema for Map validation
+ * Issues are reported at `[index, 'key']` and `[index, 'value']` of the entry.
+ */
+export class MapSchema<K, V> extends Schema<Map<K, V>> {
+  private readonly _keySchema: Schema<K>;
+  private readonly _valueSchema: Schema<V>;
+  private readonly _minSize?: number;
+  private readonly _maxSize?: number;
+  private readonly _coerce: boolean;
+
+  constructor(keySchema: Schema<K>, valueSchema: Schema<V>, options: MapSchemaOptions = {}) {
+    super();
+    this._keySchema = keySchema;
+    this._valueSchema = valueSchema;
+    this._minSize = options.minSize;
+    this._maxSize = options.maxSize;
+    this._coerce = options.coerce || false;
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Set minimum size validation
+   */
+  min(size: number, message?: CheckMessage): MapSchema<K, V> {
+    return new MapSchema(this._keySchema, this._valueSchema, {
+      ...this._getOptions(),
+      minSize: size,
+      messages: this.withMessage('map.min_size', message),
+    });
+  }
+
+  /**
+   * Set maximum size validation
+   */
+  max(size: number, message?: CheckMessage): MapSchema<K, V> {
+    return new MapSchema(this._keySchema, this._valueSchema, {
+      ...this._getOptions(),
+      maxSize: size,
+      messages: this.withMessage('map.max_size', message),
+    });
+  }
+
+  /**
+   * Set exact size validation
+   */
+  size(size: number, message?: CheckMessage): MapSchema<K, V> {
+    return this.min(size, message).max(size, message);
+  }
+
+  /**
+   * Also accept JSON representations: arrays of `[key, value]` entries and plain objects
+   */
+  coerce(): MapSchema<K, V> {
+    return new MapSchema(this._keySchema, this._valueSchema, {
+      ...this._getOptions(),
+      coerce: true,
+    });
+  }
+
+  /**
+   * Generate a partial schema
+   * Values are made partial, keys are kept as is
+   */
+  partial(): Schema<Map<K, Partial<V>>> {
+    return new MapSchema(this._keySchema, this._valueSchema.partial() as Schema<Partial<V>>, this._getOptions());
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): MapSchemaOptions {
+    return {
+      minSize: this._minSize,
+      maxSize: this._maxSize,
+      coerce: this._coerce,
+      messages: this._messages,
+    };
+  }
+
+  /**
+   * Entries of the data, or undefined if it is not an accepted map representation
+   */
+  private _entries(data: unknown): [unknown, unknown][] | undefined {
+    if (data instanceof Map) {
+      return Array.from(data.entries());
+    }
+
+    if (!this._coerce || data === null || typeof data !== 'object') {
+      return undefined;
+    }
+
+    if (Array.isArray(data)) {
+      const isEntries = data.every(entry => Array.isArray(entry) && entry.length === 2);
+      return isEntries ? data as [unknown, unknown][] : undefined;
+    }
+
+    return Object.getPrototypeOf(data) === Object.prototype || Object.getPrototypeOf(data) === null
+      ? Object.entries(data)
+      : undefined;
+  }
+
+  /**
+   * Parse and validate map data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<Map<K, V>, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate map data asynchronously
+   * Entries are validated concurrently, then assembled as in `_parse`
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<Map<K, V>, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+    const entries = this._entries(data);
+
+    if (entries) {
+      await Promise.all(entries.map(async ([key, value], i) => {
+        const [keyResult, valueResult] = await Promise.all([
+          this._keySchema._parseAsync(key, { ...options, path: appendPath(appendPath(path, i), 'key') }),
+          this._valueSchema._parseAsync(value, { ...options, path: appendPath(appendPath(path, i), 'value') }),
+        ]);
+
+        settled.set(`${i}.key`, keyResult);
+        settled.set(`${i}.value`, valueResult);
+      }));
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the map size, delegating each key and value to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<Map<K, V>, ValidationError> {
+    const path = options.path || [];
+    const entries = this._entries(data);
+
+    // Type check
+    if (!entries) {
+      return err(this.invalidType('map', data, options));
+    }
+
+    const result = new Map<K, V>();
+    const issues: ValidationIssue[] = [];
+
+    // Size validations
+    if (this._minSize !== undefined && entries.length < this._minSize) {
+      issues.push(this.localizedIssue(
+        'map.min_size',
+        options,
+        path,
+        { min: this._minSize, actual: entries.length }
+      ));
+    }
+
+    if (this._maxSize !== undefined && entries.length > this._maxSize) {
+      issues.push(this.localizedIssue(
+        'map.max_size',
+        options,
+        path,
+        { max: this._maxSize, actual: entries.length }
+      ));
+    }
+
+    // Validate entries
+    for (let i = 0; i < entries.length; i++) {
+      const [key, value] = entries[i];
+      const entryPath = appendPath(path, i);
+      const keyResult = parse(this._keySchema, key, { ...options, path: appendPath(entryPath, 'key') }, `${i}.key`);
+      const valueResult = parse(this._valueSchema, value, { ...options, path: appendPath(entryPath, 'value') }, `${i}.value`);
+
+      if (keyResult.isOk() && valueResult.isOk()) {
+        result.set(keyResult.unwrap(), valueResult.unwrap());
+        continue;
+      }
+
+      for (const entryResult of [keyResult, valueResult]) {
+        if (entryResult.isErr()) {
+          issues.push(...entryResult.unwrapErr().issues);
+        }
+      }
+
+      if (options.abortEarly) {
+        return err(this.validationError(issues));
+      }
+    }
+
+    return this.settle(result, issues, options);
+  }
+}
+
+/**
+ * Options for map schema
+ */
+export interface MapSchemaOptions extends SchemaMessageOptions {
+  minSize?: number;
+  maxSize?: number;
+  coerce?: boolean;
+}
+
+/**
+ * Create a map schema
+ */
+export function map<K, V>(
+  keySchema: Schema<K>,
+  valueSchema: Schema<V>,
+  options: MapSchemaOptions = {}
+): MapSchema<K, V> {
+  return new MapSchema(keySchema, valueSchema, options);
+}
@@ -0,0 +1,37 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, err } from '../core/result';
+import { ValidationError } from '../core/errors';
+import { SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Schema that rejects every value
+ * Useful to forbid a property, or as the catchall of a closed object.
+ */
+export class NeverSchema extends Schema<never> {
+  constructor(options: SchemaMessageOptions = {}) {
+    super();
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Parse never data, always an `invalid_type` issue
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<never, ValidationError> {
+    return err(this.invalidType('never', data, options));
+  }
+
+  /**
+   * Generate a partial schema
+   * For never, partial is the same
+   */
+  partial(): Schema<never> {
+    return this;
+  }
+}
+
+/**
+ * Create a never schema
+ */
+export function never(options: SchemaMessageOptions = {}): NeverSchema {
+  return new NeverSchema(options);
+}
@@ -1,6 +1,7 @@
 import { Schema, ValidationOptions } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError } from '../core/errors';
+import { SchemaMessageOptions, collectMessages } from '../core/messages';
 
 /**
  * Schema for null validation
@@ -11,21 +12,16 @@ export class NullSchema extends Schema<null> {
   constructor(options: NullSchemaOptions = {}) {
     super();
     this._optional = options.optional || false;
+    this._messages = collectMessages(options);
   }
 
-  /**
-   * Set this null as optional
-   */
-  optional(): Schema<null | undefined> {
-    return new OptionalNullSchema(this);
-  }
-  
   /**
    * Internal method to get current options
    */
   private _getOptions(): NullSchemaOptions {
     return {
       optional: this._optional,
+      messages: this._messages,
     };
   }
 
@@ -33,11 +29,9 @@ export class NullSchema extends Schema<null> {
    * Parse and validate null data
    */
   _parse(data: unknown, options: ValidationOptions): Result<null, ValidationError> {
-    const path = options.path || [];
-
     // Type check
     if (data !== null) {
-      return err(ValidationError.typeMismatch('null', data, path));
+      return err(this.invalidType('null', data, options));
     }
 
     return ok(null);
@@ -52,37 +46,10 @@ export class NullSchema extends Schema<null> {
   }
 }
 
-/**
- * Schema for optional null
- */
-class OptionalNullSchema extends Schema<null | undefined> {
-  constructor(private readonly baseSchema: NullSchema) {
-    super();
-  }
-  
-  /**
-   * Parse and validate null data
-   */
-  _parse(data: unknown, options: ValidationOptions): Result<null | undefined, ValidationError> {
-    if (data === undefined) {
-      return ok(undefined);
-    }
-    
-    return this.baseSchema._parse(data, options);
-  }
-  
-  /**
-   * Generate a partial schema
-   */
-  partial(): Schema<null | undefined> {
-    return this;
-  }
-}
-
 /**
  * Options for null schema
  */
-export interface NullSchemaOptions {
+export interface NullSchemaOptions extends SchemaMessageOptions {
   optional?: boolean;
 }
 
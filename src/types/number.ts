@@ -1,6 +1,40 @@
 import { Schema, ValidationOptions } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError } from '../core/errors';
+import { coerceNumber } from '../core/coerce';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { CompiledNode, FAIL } from '../core/compile';
+
+/**
+ * Number of digits after the decimal point, exponent notation included
+ */
+export function decimalPlaces(value: number): number {
+  const [mantissa, exponent] = String(value).toLowerCase().split('e');
+  const fraction = mantissa.split('.')[1] || '';
+  return Math.max(0, fraction.length - Number(exponent || 0));
+}
+
+/**
+ * Whether a number is a multiple of a step, without float modulo errors
+ * Both are scaled to integers by their decimal places, so that 0.3 is a
+ * multiple of 0.1; beyond safe integers the quotient is compared instead.
+ */
+export function isMultipleOf(value: number, step: number): boolean {
+  if (!Number.isFinite(value)) {
+    return false;
+  }
+
+  const scale = 10 ** Math.max(decimalPlaces(value), decimalPlaces(step));
+  const scaledValue = Math.round(value * scale);
+  const scaledStep = Math.round(step * scale);
+
+  if (Number.isSafeInteger(scaledValue) && Number.isSafeInteger(scaledStep) && scaledStep !== 0) {
+    return scaledValue % scaledStep === 0;
+  }
+
+  const quotient = value / step;
+  return Math.abs(quotient - Math.round(quotient)) <= Number.EPSILON * Math.max(1, Math.abs(quotient));
+}
 
 /**
  * Schema for number validation
@@ -8,42 +42,97 @@ import { ValidationError } from '../core/errors';
 export class NumberSchema extends Schema<number> {
   private readonly _min?: number;
   private readonly _max?: number;
+  private readonly _gt?: number;
+  private readonly _lt?: number;
   private readonly _integer: boolean = false;
+  private readonly _finite: boolean = false;
+  private readonly _safe: boolean = false;
   private readonly _positive: boolean = false;
   private readonly _negative: boolean = false;
+  private readonly _nonnegative: boolean = false;
+  private readonly _nonpositive: boolean = false;
   private readonly _multipleOf?: number;
+  private readonly _precision?: number;
   private readonly _optional: boolean = false;
+  private readonly _coerce: boolean = false;
   private readonly _default?: number;
   
   constructor(options: NumberSchemaOptions = {}) {
     super();
     this._min = options.min;
     this._max = options.max;
+    this._gt = options.gt;
+    this._lt = options.lt;
     this._integer = options.integer || false;
+    this._finite = options.finite || false;
+    this._safe = options.safe || false;
     this._positive = options.positive || false;
     this._negative = options.negative || false;
+    this._nonnegative = options.nonnegative || false;
+    this._nonpositive = options.nonpositive || false;
     this._multipleOf = options.multipleOf;
+    this._precision = options.precision;
     this._optional = options.optional || false;
+    this._coerce = options.coerce || false;
     this._default = options.default;
+    this._messages = collectMessages(options);
   }
 
   /**
    * Set minimum value validation
    */
-  min(value: number): NumberSchema {
+  min(value: number, message?: CheckMessage): NumberSchema {
     return new NumberSchema({
       ...this._getOptions(),
       min: value,
+      messages: this.withMessage('number.min', message),
     });
   }
 
   /**
    * Set maximum value validation
    */
-  max(value: number): NumberSchema {
+  max(value: number, message?: CheckMessage): NumberSchema {
     return new NumberSchema({
       ...this._getOptions(),
       max: value,
+      messages: this.withMessage('number.max', message),
+    });
+  }
+
+  /**
+   * Set minimum value validation (inclusive), alias of `min`
+   */
+  gte(value: number, message?: CheckMessage): NumberSchema {
+    return this.min(value, message);
+  }
+
+  /**
+   * Set maximum value validation (inclusive), alias of `max`
+   */
+  lte(value: number, message?: CheckMessage): NumberSchema {
+    return this.max(value, message);
+  }
+
+  /**
+   * Set exclusive minimum value validation
+   */
+  gt(value: number, message?: CheckMessage): NumberSchema {
+    return new NumberSchema({
+      ...this._getOptions(),
+      gt: value,
+      messages: this.withMessage('number.gt', message),
+    });
+  }
+
+  /**
+   * Set exclusive maximum value validation
+   */
+  lt(value: number, message?: CheckMessage): NumberSchema {
+    return new NumberSchema({
+      ...this._getOptions(),
+      lt: value,
+      messages: this.withMessage('number.lt', message),
     });
   }
 
@@ -60,53 +149,112 @@ export class NumberSchema extends Schema<number> {
   /**
    * Validate number is an integer
    */
-  int(): NumberSchema {
+  int(message?: CheckMessage): NumberSchema {
     return new NumberSchema({
       ...this._getOptions(),
       integer: true,
+      messages: this.withMessage('number.integer', message),
     });
   }
 
   /**
-   * Validate number is positive (> 0)
+   * Validate number is neither Infinity nor -Infinity
    */
-  positive(): NumberSchema {
+  finite(message?: CheckMessage): NumberSchema {
     return new NumberSchema({
       ...this._getOptions(),
-      positive: true,
-      negative: false,
+      finite: true,
+      messages: this.withMessage('number.finite', message),
     });
   }
 
   /**
-   * Validate number is negative (< 0)
+   * Validate number is a safe integer (between -(2^53 - 1) and 2^53 - 1)
    */
-  negative(): NumberSchema {
+  safe(message?: CheckMessage): NumberSchema {
     return new NumberSchema({
       ...this._getOptions(),
-      negative: true,
-      positive: false,
+      safe: true,
+      messages: this.withMessage('number.safe', message),
     });
   }
 
+  /**
+   * Validate number is positive (> 0)
+   */
+  positive(message?: CheckMessage): NumberSchema {
+    return this._withSign({ positive: true }, 'number.positive', message);
+  }
+
+  /**
+   * Validate number is negative (< 0)
+   */
+  negative(message?: CheckMessage): NumberSchema {
+    return this._withSign({ negative: true }, 'number.negative', message);
+  }
+
+  /**
+   * Validate number is positive or zero (>= 0)
+   */
+  nonnegative(message?: CheckMessage): NumberSchema {
+    return this._withSign({ nonnegative: true }, 'number.nonnegative', message);
+  }
+
+  /**
+   * Validate number is negative or zero (<= 0)
+   */
+  nonpositive(message?: CheckMessage): NumberSchema {
+    return this._withSign({ nonpositive: true }, 'number.nonpositive', message);
+  }
+
   /**
    * Validate number is a multiple of the given value
    */
-  multipleOf(value: number): NumberSchema {
+  multipleOf(value: number, message?: CheckMessage): NumberSchema {
     return new NumberSchema({
       ...this._getOptions(),
       multipleOf: value,
+      messages: this.withMessage('number.multiple_of', message),
     });
   }
 
+  /**
+   * Validate number is on a step from zero, alias of `multipleOf`
+   */
+  step(value: number, message?: CheckMessage): NumberSchema {
+    return this.multipleOf(value, message);
+  }
 
   /**
-   * Set this number as optional
+   * Validate number has at most the given decimal places, e.g. 2 for amounts in euros
    */
-  optional(): Schema<number | undefined> {
-    return new OptionalNumberSchema(this);
+  precision(digits: number, message?: CheckMessage): NumberSchema {
+    return new NumberSchema({
+      ...this._getOptions(),
+      precision: digits,
+      messages: this.withMessage('number.precision', message),
+    });
   }
-  
+
+  /**
+   * Replace the sign constraint, signs are mutually exclusive
+   */
+  private _withSign(
+    sign: Pick<NumberSchemaOptions, 'positive' | 'negative' | 'nonnegative' | 'nonpositive'>,
+    code: string,
+    message?: CheckMessage
+  ): NumberSchema {
+    return new NumberSchema({
+      ...this._getOptions(),
+      positive: false,
+      negative: false,
+      nonnegative: false,
+      nonpositive: false,
+      ...sign,
+      messages: this.withMessage(code, message),
+    });
+  }
+
   /**
    * Internal method to get current options
    */
@@ -114,11 +262,20 @@ export class NumberSchema extends Schema<number> {
     return {
       min: this._min,
       max: this._max,
+      gt: this._gt,
+      lt: this._lt,
       integer: this._integer,
+      finite: this._finite,
+      safe: this._safe,
       positive: this._positive,
       negative: this._negative,
+      nonnegative: this._nonnegative,
+      nonpositive: this._nonpositive,
       multipleOf: this._multipleOf,
+      precision: this._precision,
       optional: this._optional,
+      coerce: this._coerce,
+      messages: this._messages,
     };
   }
 
@@ -126,6 +283,10 @@ export class NumberSchema extends Schema<number> {
    * Parse and validate number data
    */
   _parse(data: unknown, options: ValidationOptions): Result<number, ValidationError> {
+    if (this._coerce || options.coerce) {
+      data = coerceNumber(data);
+    }
+
     const path = options.path || [];
 
     // Si la valeur est undefined et qu'il y a une valeur par défaut, utilisez-la
@@ -135,7 +296,7 @@ export class NumberSchema extends Schema<number> {
   
     // Type check
     if (typeof data !== 'number' || Number.isNaN(data)) {
-      return err(ValidationError.typeMismatch('number', data, path));
+      return err(this.invalidType('number', data, options));
     }
 
     const value = data;
@@ -143,18 +304,38 @@ export class NumberSchema extends Schema<number> {
 
     // Integer validation
     if (this._integer && !Number.isInteger(value)) {
-      issues.push(this.issue(
-        'Number must be an integer',
+      issues.push(this.localizedIssue(
         'number.integer',
+        options,
         path
       ));
     }
 
+    // Finite validation
+    if (this._finite && !Number.isFinite(value)) {
+      issues.push(this.localizedIssue(
+        'number.finite',
+        options,
+        path,
+        { value }
+      ));
+    }
+
+    // Safe integer validation
+    if (this._safe && !Number.isSafeInteger(value)) {
+      issues.push(this.localizedIssue(
+        'number.safe',
+        options,
+        path,
+        { value }
+      ));
+    }
+
     // Positive validation
     if (this._positive && value <= 0) {
-      issues.push(this.issue(
-        'Number must be positive',
+      issues.push(this.localizedIssue(
         'number.positive',
+        options,
         path,
         { value }
       ));
@@ -162,9 +343,29 @@ export class NumberSchema extends Schema<number> {
 
     // Negative validation
     if (this._negative && value >= 0) {
-      issues.push(this.issue(
-        'Number must be negative',
+      issues.push(this.localizedIssue(
         'number.negative',
+        options,
+        path,
+        { value }
+      ));
+    }
+
+    // Nonnegative validation
+    if (this._nonnegative && value < 0) {
+      issues.push(this.localizedIssue(
+        'number.nonnegative',
+        options,
+        path,
+        { value }
+      ));
+    }
+
+    // Nonpositive validation
+    if (this._nonpositive && value > 0) {
+      issues.push(this.localizedIssue(
+        'number.nonpositive',
+        options,
         path,
         { value }
       ));
@@ -172,9 +373,9 @@ export class NumberSchema extends Schema<number> {
 
     // Min validation
     if (this._min !== undefined && value < this._min) {
-      issues.push(this.issue(
-        `Number must be greater than or equal to ${this._min}`,
+      issues.push(this.localizedIssue(
         'number.min',
+        options,
         path,
         { min: this._min, value }
       ));
@@ -182,86 +383,186 @@ export class NumberSchema extends Schema<number> {
 
     // Max validation
     if (this._max !== undefined && value > this._max) {
-      issues.push(this.issue(
-        `Number must be less than or equal to ${this._max}`,
+      issues.push(this.localizedIssue(
         'number.max',
+        options,
         path,
         { max: this._max, value }
       ));
     }
 
+    // Exclusive min validation
+    if (this._gt !== undefined && value <= this._gt) {
+      issues.push(this.localizedIssue(
+        'number.gt',
+        options,
+        path,
+        { gt: this._gt, value }
+      ));
+    }
+
+    // Exclusive max validation
+    if (this._lt !== undefined && value >= this._lt) {
+      issues.push(this.localizedIssue(
+        'number.lt',
+        options,
+        path,
+        { lt: this._lt, value }
+      ));
+    }
+
     // Multiple of validation
-    if (this._multipleOf !== undefined) {
-      const remainder = value % this._multipleOf;
-      // Account for floating point precision issues
-      const isMultiple = Math.abs(remainder) < Number.EPSILON ||
-        Math.abs(remainder - this._multipleOf) < Number.EPSILON;
-
-      if (!isMultiple) {
-        issues.push(this.issue(
-          `Number must be a multiple of ${this._multipleOf}`,
-          'number.multiple_of',
-          path,
-          { multipleOf: this._multipleOf, value }
-        ));
-      }
+    if (this._multipleOf !== undefined && !isMultipleOf(value, this._multipleOf)) {
+      issues.push(this.localizedIssue(
+        'number.multiple_of',
+        options,
+        path,
+        { multipleOf: this._multipleOf, value }
+      ));
     }
 
-    if (issues.length > 0) {
-      return err(this.validationError(issues));
+    // Precision validation
+    if (this._precision !== undefined && Number.isFinite(value) && decimalPlaces(value) > this._precision) {
+      issues.push(this.localizedIssue(
+        'number.precision',
+        options,
+        path,
+        { precision: this._precision, value }
+      ));
     }
 
-    return ok(value);
+    return this.settle(value, issues, options);
   }
 
   /**
-   * Generate a partial schema
-   * For primitives like number, partial means the value is now optional
+   * Compiled validator, performing the checks of `_parse` without building issues
    */
-  partial(): Schema<number | undefined> {
-    return this.optional();
-  }
-}
+  _compile(): CompiledNode | undefined {
+    // Coercing schemas convert their input first
+    if (this._coerce) {
+      return undefined;
+    }
 
-/**
- * Schema for optional number
- */
-class OptionalNumberSchema extends Schema<number | undefined> {
-  constructor(private readonly baseSchema: NumberSchema) {
-    super();
-  }
-  
-  /**
-   * Parse and validate number data
-   */
-  _parse(data: unknown, options: ValidationOptions): Result<number | undefined, ValidationError> {
-    if (data === undefined || data === null) {
-      return ok(undefined);
+    const checks: Array<(value: number) => boolean> = [];
+
+    if (this._integer) {
+      checks.push(value => Number.isInteger(value));
+    }
+
+    if (this._finite) {
+      checks.push(value => Number.isFinite(value));
+    }
+
+    if (this._safe) {
+      checks.push(value => Number.isSafeInteger(value));
+    }
+
+    if (this._positive) {
+      checks.push(value => value > 0);
+    }
+
+    if (this._negative) {
+      checks.push(value => value < 0);
+    }
+
+    if (this._nonnegative) {
+      checks.push(value => value >= 0);
+    }
+
+    if (this._nonpositive) {
+      checks.push(value => value <= 0);
+    }
+
+    if (this._min !== undefined) {
+      const min = this._min;
+      checks.push(value => value >= min);
+    }
+
+    if (this._max !== undefined) {
+      const max = this._max;
+      checks.push(value => value <= max);
+    }
+
+    if (this._gt !== undefined) {
+      const gt = this._gt;
+      checks.push(value => value > gt);
+    }
+
+    if (this._lt !== undefined) {
+      const lt = this._lt;
+      checks.push(value => value < lt);
+    }
+
+    if (this._multipleOf !== undefined) {
+      const multipleOf = this._multipleOf;
+      checks.push(value => isMultipleOf(value, multipleOf));
+    }
+
+    if (this._precision !== undefined) {
+      const precision = this._precision;
+      checks.push(value => !Number.isFinite(value) || decimalPlaces(value) <= precision);
     }
-    
-    return this.baseSchema._parse(data, options);
+
+    return (data) => {
+      if (data === undefined && this._default !== undefined) {
+        return this._default;
+      }
+
+      if (typeof data !== 'number' || Number.isNaN(data)) {
+        return FAIL;
+      }
+
+      for (let i = 0; i < checks.length; i++) {
+        if (!checks[i](data)) {
+          return FAIL;
+        }
+      }
+
+      return data;
+    };
   }
-  
+
   /**
    * Generate a partial schema
+   * For primitives like number, partial means the value is now optional
    */
   partial(): Schema<number | undefined> {
-    return this;
+    return this.optional();
   }
 }
 
 /**
  * Options for number schema
  */
-export interface NumberSchemaOptions {
+export interface NumberSchemaOptions extends SchemaMessageOptions {
   min?: number;
   max?: number;
+
+  /**
+   * Exclusive bounds
+   */
+  gt?: number;
+  lt?: number;
   integer?: boolean;
+  finite?: boolean;
+  safe?: boolean;
   positive?: boolean;
   negative?: boolean;
+  nonnegative?: boolean;
+  nonpositive?: boolean;
   multipleOf?: number;
+
+  /**
+   * Maximum number of decimal places
+   */
+  precision?: number;
   optional?: boolean;
   default?: number;
+
+  /**
+   * Convert the input before validation (see `s.coerce`)
+   */
+  coerce?: boolean;
 }
 
 /**
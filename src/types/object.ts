@@ -1,14 +1,66 @@
-import { Schema, ValidationOptions, PartialSchema } from '../core/schema';
+import { Schema, ValidationOptions, ChildParser, InferType, Brand, parseChild } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError, ValidationIssue } from '../core/errors';
+import { appendPath } from '../core/path';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { OptionalSchema } from '../core/optional';
+import { CompileContext, CompiledNode, FAIL, compileNode } from '../core/compile';
+import { EnumSchema } from './enum';
+
+/**
+ * Keys of a shape whose schema accepts `undefined`
+ */
+type OptionalKeys<S extends Record<string, Schema<any>>> = {
+  [K in keyof S]: undefined extends InferType<S[K]> ? K : never;
+}[keyof S];
 
 /**
  * Type helper to extract schema types from a shape object
+ * Properties accepting `undefined` are optional.
+ */
+export type InferObjectType<S extends Record<string, Schema<any>>> = FlattenObject<{
+  [K in Exclude<keyof S, OptionalKeys<S>>]: InferType<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: InferType<S[K]>;
+}>;
+
+/**
+ * Single object type from an intersection
+ */
+type FlattenObject<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Handling of the properties that are not in the shape
+ * - `strip`: removed from the output
+ * - `strict`: reported as `object.unrecognized_keys`
+ * - `passthrough`: kept as is
  */
-export type InferObjectType<S extends Record<string, Schema<any>>> = {
-  [K in keyof S]: S[K] extends Schema<infer T> ? T : never;
+export type UnknownKeysPolicy = 'strip' | 'strict' | 'passthrough';
+
+/**
+ * Object type where the properties `K` are required
+ */
+export type RequireProperties<T, K extends keyof T> = FlattenObject<Omit<T, K> & Required<Pick<T, K>>>;
+
+/**
+ * Object type with the properties of `B` added to, or replacing, those of `A`
+ */
+export type MergeObjectTypes<A, B> = {
+  [K in keyof A | keyof B]: K extends keyof B ? B[K] : K extends keyof A ? A[K] : never;
 };
 
+/**
+ * Object type where every property is optional, recursively
+ * Branded values are kept whole.
+ */
+export type DeepPartial<T> = T extends Brand<any, any>
+  ? T
+  : T extends readonly (infer U)[]
+    ? DeepPartial<U>[]
+    : T extends Record<string, any>
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
 /**
  * Schema for object validation
  */
@@ -16,29 +68,179 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
   private readonly _shape: Record<string, Schema<any>>;
   private readonly _required: Set<string>;
   private readonly _defaults: Record<string, any>;
+  private readonly _requiredMessages: Record<string, CheckMessage>;
+  private readonly _unknownKeys?: UnknownKeysPolicy;
+  private readonly _catchall?: Schema<any>;
 
   constructor(options: ObjectSchemaOptions<T>) {
     super();
     this._shape = options.shape || {};
-    this._required = new Set(options.required || Object.keys(this._shape));
+    this._required = new Set(options.required || requiredKeys(this._shape));
     this._defaults = options.defaults || {} as Partial<T>;
+    this._requiredMessages = options.requiredMessages || {};
+    this._unknownKeys = options.unknownKeys;
+    this._catchall = options.catchall;
+    this._messages = collectMessages(options);
   }
 
   /**
-   * Make specific properties required
+   * Schemas of the properties
    */
-  required<K extends keyof T>(keys: K | K[]): ObjectSchema<T> {
-    const keysArray = Array.isArray(keys) ? keys : [keys];
+  get shape(): Readonly<Record<string, Schema<any>>> {
+    return this._shape;
+  }
+
+  /**
+   * Make specific properties required, or all of them when called without keys
+   * @param message - Message reported when one of these properties is missing
+   */
+  required(keys?: undefined, message?: CheckMessage): ObjectSchema<Required<T>>;
+  required<K extends keyof T>(keys: K | K[], message?: CheckMessage): ObjectSchema<RequireProperties<T, K>>;
+  required<K extends keyof T>(keys?: K | K[], message?: CheckMessage): ObjectSchema<any> {
+    const keysArray = keys === undefined
+      ? Object.keys(this._shape) as K[]
+      : Array.isArray(keys) ? keys : [keys];
     const required = new Set(this._required);
+    const requiredMessages = { ...this._requiredMessages };
 
     for (const key of keysArray) {
       required.add(key as string);
+
+      if (message !== undefined) {
+        requiredMessages[key as string] = message;
+      }
     }
 
-    return new ObjectSchema<T>({
-      shape: this._shape,
+    return new ObjectSchema<any>({
+      ...this._getOptions(),
       required: Array.from(required),
-      defaults: this._defaults,
+      requiredMessages,
+    });
+  }
+
+  /**
+   * Reject unknown properties with an `object.unrecognized_keys` issue
+   * Overrides the `stripUnknown` parse option.
+   */
+  strict(message?: CheckMessage): ObjectSchema<T> {
+    return new ObjectSchema<T>({
+      ...this._getOptions(),
+      unknownKeys: 'strict',
+      catchall: undefined,
+      messages: this.withMessage('object.unrecognized_keys', message),
+    });
+  }
+
+  /**
+   * Keep unknown properties in the output
+   * Overrides the `stripUnknown` parse option.
+   */
+  passthrough(): ObjectSchema<T> {
+    return new ObjectSchema<T>({
+      ...this._getOptions(),
+      unknownKeys: 'passthrough',
+      catchall: undefined,
+    });
+  }
+
+  /**
+   * Remove unknown properties from the output
+   * Overrides the `stripUnknown` parse option.
+   */
+  strip(): ObjectSchema<T> {
+    return new ObjectSchema<T>({
+      ...this._getOptions(),
+      unknownKeys: 'strip',
+      catchall: undefined,
+    });
+  }
+
+  /**
+   * Validate every unknown property against `schema`
+   * Takes precedence over the unknown keys policy and the `stripUnknown` parse option.
+   */
+  catchall<V>(schema: Schema<V>): ObjectSchema<T & Record<string, V>> {
+    return new ObjectSchema<T & Record<string, V>>({
+      ...this._getOptions(),
+      catchall: schema,
+    });
+  }
+
+  /**
+   * Add properties to the shape, replacing the existing ones with the same name
+   * Added properties are required unless optional. Given methods instead of schemas, extends
+   * the schema instance like `Schema.extend`.
+   */
+  extend<S extends Record<string, Schema<any>>>(shape: S): ObjectSchema<MergeObjectTypes<T, InferObjectType<S>>>;
+  extend<U extends Record<string, any>>(methods: U): this & U;
+  extend(extension: Record<string, any>): any {
+    if (!Object.values(extension).every(value => value instanceof Schema)) {
+      return super.extend(extension);
+    }
+
+    return this._merge({
+      shape: extension,
+      required: requiredKeys(extension),
+    });
+  }
+
+  /**
+   * Merge the shape of another object schema
+   * Properties, required keys and defaults of `other` take precedence, and so do
+   * its unknown keys policy and catchall when it sets either of them.
+   */
+  merge<U extends Record<string, any>>(other: ObjectSchema<U>): ObjectSchema<MergeObjectTypes<T, U>> {
+    const options = other._getOptions();
+    const merged = this._merge<MergeObjectTypes<T, U>>(options);
+
+    if (options.unknownKeys === undefined && options.catchall === undefined) {
+      return merged;
+    }
+
+    return new ObjectSchema<MergeObjectTypes<T, U>>({
+      ...merged._getOptions(),
+      unknownKeys: options.unknownKeys,
+      catchall: options.catchall,
+    });
+  }
+
+  /**
+   * Keep only the given properties
+   */
+  pick<K extends keyof T>(keys: K | K[]): ObjectSchema<Pick<T, K>> {
+    const picked = new Set<string>((Array.isArray(keys) ? keys : [keys]) as string[]);
+    return this._select(key => picked.has(key));
+  }
+
+  /**
+   * Remove the given properties
+   */
+  omit<K extends keyof T>(keys: K | K[]): ObjectSchema<Omit<T, K>> {
+    const omitted = new Set<string>((Array.isArray(keys) ? keys : [keys]) as string[]);
+    return this._select(key => !omitted.has(key));
+  }
+
+  /**
+   * Enum schema of the property names
+   */
+  keyof(): EnumSchema<(keyof T & string)[]> {
+    return new EnumSchema(Object.keys(this._shape) as (keyof T & string)[]);
+  }
+
+  /**
+   * Generate a schema where all properties are optional, nested objects included
+   */
+  deepPartial(): ObjectSchema<DeepPartial<T>> {
+    const shape: Record<string, Schema<any>> = {};
+
+    for (const [key, schema] of Object.entries(this._shape)) {
+      shape[key] = schema instanceof ObjectSchema ? schema.deepPartial() : schema.partial();
+    }
+
+    return new ObjectSchema<DeepPartial<T>>({
+      ...this._getOptions(),
+      shape,
+      required: [],
     });
   }
 
@@ -53,7 +255,7 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
     required.delete(key as string);
 
     return new ObjectSchema<T>({
-      shape: this._shape,
+      ...this._getOptions(),
       required: Array.from(required),
       defaults: {
         ...this._defaults,
@@ -65,7 +267,7 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
   /**
    * Generate a partial schema where all properties are optional
    */
-  partial(): PartialSchema<T> {
+  partial(): ObjectSchema<Partial<T>> {
     // Transforme chaque propriété du schéma en version partielle
     const partialShape: Record<string, Schema<any>> = {};
 
@@ -73,51 +275,12 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
       partialShape[key] = schema.partial();
     }
 
-    // Sauvegardons les defaults ici pour y accéder dans les fonctions internes
-    const defaults = this._defaults;
-
-    // Créer un schéma partiel de base
-    const partialSchema = new ObjectSchema<Partial<T>>({
+    // required() rend de nouveau des propriétés obligatoires
+    return new ObjectSchema<Partial<T>>({
+      ...this._getOptions(),
       shape: partialShape,
       required: [], // Aucune propriété requise
-      defaults: defaults,
     });
-
-    // Ajout de la méthode required au schéma partiel
-    return Object.assign(partialSchema, {
-      required<K extends keyof T>(keys: K | K[]): PartialSchema<T> {
-        const keysArray = Array.isArray(keys) ? keys : [keys];
-        const required = new Set<string>();
-
-        for (const key of keysArray) {
-          required.add(key as string);
-        }
-
-        const newSchema = new ObjectSchema<Partial<T>>({
-          shape: partialShape,
-          required: Array.from(required),
-          defaults: defaults,
-        });
-
-        // Ajouter à nouveau la méthode required
-        return Object.assign(newSchema, {
-          required<K extends keyof T>(moreKeys: K | K[]): PartialSchema<T> {
-            const moreKeysArray = Array.isArray(moreKeys) ? moreKeys : [moreKeys];
-            const combinedRequired = new Set<string>(required);
-
-            for (const key of moreKeysArray) {
-              combinedRequired.add(key as string);
-            }
-
-            return new ObjectSchema<Partial<T>>({
-              shape: partialShape,
-              required: Array.from(combinedRequired),
-              defaults: defaults,
-            }) as PartialSchema<T>;
-          }
-        }) as PartialSchema<T>;
-      }
-    }) as PartialSchema<T>;
   }
 
   /**
@@ -125,9 +288,11 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
    * @param keys - If provided, makes only these properties optional
    * @returns A new schema with optional properties or an optional object
    */
-  optional<K extends keyof T>(keys?: K | K[]): Schema<T | undefined> | ObjectSchema<T> {
+  optional(): OptionalSchema<T>;
+  optional<K extends keyof T>(keys: K | K[]): ObjectSchema<T>;
+  optional<K extends keyof T>(keys?: K | K[]): OptionalSchema<T> | ObjectSchema<T> {
     if (keys === undefined) {
-      return new OptionalObjectSchema<T>(this);
+      return super.optional();
     }
 
     const keysArray: K[] = Array.isArray(keys) ? keys : [keys];
@@ -138,21 +303,134 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
     }
 
     return new ObjectSchema<T>({
-      shape: this._shape,
+      ...this._getOptions(),
       required: Array.from(required),
-      defaults: this._defaults,
     });
   }
 
+  /**
+   * Add the properties of `options` to this schema, replacing the existing ones
+   */
+  private _merge<U extends Record<string, any>>(options: ObjectSchemaOptions<any>): ObjectSchema<U> {
+    const shape = options.shape || {};
+    const kept = (key: string) => !(key in shape);
+    const base = this._select<Record<string, any>>(kept)._getOptions();
+
+    return new ObjectSchema<U>({
+      ...base,
+      shape: { ...base.shape, ...shape },
+      required: [...base.required!, ...(options.required || [])],
+      defaults: { ...base.defaults, ...options.defaults },
+      requiredMessages: { ...base.requiredMessages, ...options.requiredMessages },
+      messages: { ...base.messages, ...options.messages },
+    });
+  }
+
+  /**
+   * Keep the properties whose name matches `predicate`, with their defaults and messages
+   */
+  private _select<U extends Record<string, any>>(predicate: (key: string) => boolean): ObjectSchema<U> {
+    const filter = <V>(record: Record<string, V>): Record<string, V> => {
+      const selected: Record<string, V> = {};
+
+      for (const [key, value] of Object.entries(record)) {
+        if (predicate(key)) {
+          selected[key] = value;
+        }
+      }
+
+      return selected;
+    };
+
+    return new ObjectSchema<U>({
+      ...this._getOptions(),
+      shape: filter(this._shape),
+      required: Array.from(this._required).filter(predicate),
+      defaults: filter(this._defaults),
+      requiredMessages: filter(this._requiredMessages),
+    });
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): ObjectSchemaOptions<T> {
+    return {
+      shape: this._shape,
+      required: Array.from(this._required),
+      defaults: this._defaults,
+      requiredMessages: this._requiredMessages,
+      messages: this._messages,
+      unknownKeys: this._unknownKeys,
+      catchall: this._catchall,
+    };
+  }
+
   /**
    * Parse and validate object data
    */
   _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate object data asynchronously
+   * Present properties are validated concurrently, then assembled as in `_parse`
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+      const value = data as Record<string, unknown>;
+
+      const catchall = this._catchall;
+      const entries = Object.entries(this._shape).filter(([key]) => key in value);
+
+      if (catchall) {
+        for (const key of Object.keys(value)) {
+          if (!Object.prototype.hasOwnProperty.call(this._shape, key)) {
+            entries.push([key, catchall]);
+          }
+        }
+      }
+
+      await Promise.all(
+        entries.map(async ([key, schema]) => {
+          settled.set(key, await schema._parseAsync(value[key], {
+            ...options,
+            path: appendPath(path, key),
+          }));
+        })
+      );
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Message reported for a missing required property
+   * Set by `required(keys, message)`, then by the property's `required_error`,
+   * then by the object's own `object.required` message.
+   */
+  private _requiredMessage(key: string, schema: Schema<any>): CheckMessage | undefined {
+    if (key in this._requiredMessages) {
+      return this._requiredMessages[key];
+    }
+
+    const required = schema._message('required');
+    return required !== undefined ? required : this._messages['object.required'];
+  }
+
+  /**
+   * Validate the object shape, delegating present properties to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<T, ValidationError> {
     const path = options.path || [];
 
     // Type check
     if (typeof data !== 'object' || data === null || Array.isArray(data)) {
-      return err(ValidationError.typeMismatch('object', data, path));
+      return err(this.invalidType('object', data, options));
     }
 
     const value = data as Record<string, unknown>;
@@ -164,14 +442,14 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
 
     // Validate each property in the shape
     for (const [key, schema] of Object.entries(this._shape)) {
-      const propPath = [...path, key];
+      const propPath = appendPath(path, key);
 
       if (key in value) {
         // Validate existing property
-        const propResult = schema.safeParse(value[key], {
+        const propResult = parse(schema, value[key], {
           ...options,
           path: propPath,
-        });
+        }, key);
 
         if (propResult.isOk()) {
           result[key] = propResult.unwrap();
@@ -198,7 +476,8 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
               const defaultResult = schema.safeParse(undefined, {
                 ...options,
                 path: propPath,
-                defaults: true
+                defaults: true,
+                warnings: []
               });
 
               if (defaultResult.isOk()) {
@@ -215,10 +494,12 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
 
           // Si nous n'avons pas pu obtenir de valeur par défaut, signaler l'erreur
           if (!hasDefault) {
-            issues.push(this.issue(
-              `Required property missing`,
+            issues.push(this.localizedIssue(
               'object.required',
-              propPath
+              options,
+              propPath,
+              undefined,
+              this._requiredMessage(key, schema)
             ));
 
             // Abort early if requested
@@ -239,7 +520,8 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
             const defaultResult = schema.safeParse(undefined, {
               ...options,
               path: propPath,
-              defaults: true
+              defaults: true,
+              warnings: []
             });
 
             if (defaultResult.isOk()) {
@@ -255,75 +537,193 @@ export class ObjectSchema<T extends Record<string, any>> extends Schema<T> {
       }
     }
 
-    // Check for unknown properties if not stripping them
-    if (!options.stripUnknown) {
-      for (const key of Object.keys(value)) {
-        if (!(key in this._shape)) {
-          result[key] = value[key];
+    const unknownKeys = Object.keys(value).filter(key => !Object.prototype.hasOwnProperty.call(this._shape, key));
+
+    if (this._catchall) {
+      // Validate unknown properties against the catchall schema
+      for (const key of unknownKeys) {
+        const propResult = parse(this._catchall, value[key], {
+          ...options,
+          path: appendPath(path, key),
+        }, key);
+
+        if (propResult.isOk()) {
+          result[key] = propResult.unwrap();
+        } else {
+          issues.push(...propResult.unwrapErr().issues);
+
+          if (options.abortEarly) {
+            return err(this.validationError(issues));
+          }
         }
       }
-    } else {
-      // Only include known properties when stripUnknown is true
-      for (const key of Object.keys(value)) {
-        if (key in this._shape && !(key in result)) {
-          result[key] = value[key];
-        }
+    } else if (this._unknownKeys === 'strict') {
+      if (unknownKeys.length > 0) {
+        issues.push(this.localizedIssue(
+          'object.unrecognized_keys',
+          options,
+          path,
+          { keys: unknownKeys }
+        ));
+      }
+    } else if (this._unknownKeys === 'passthrough' || (this._unknownKeys === undefined && !options.stripUnknown)) {
+      // Keep unknown properties
+      for (const key of unknownKeys) {
+        result[key] = value[key];
       }
     }
 
-    if (issues.length > 0) {
-      return err(this.validationError(issues));
-    }
+    return this.settle(result as T, issues, options);
+  }
+
+  /**
+   * Compiled validator, stopping at the first invalid property
+   */
+  _compile(): CompiledNode {
+    const shape = this._shape;
+    const defaults = this._defaults;
+    const unknownKeys = this._unknownKeys;
+    const catchall = this._catchall && compileNode(this._catchall);
+    const keepUnknown = (options: ValidationOptions) =>
+      unknownKeys === 'passthrough' || (unknownKeys === undefined && !options.stripUnknown);
+    const entries = Object.keys(shape).map(key => ({
+      key,
+      schema: shape[key],
+      node: compileNode(shape[key]),
+      required: this._required.has(key),
+    }));
+
+    // Default for a missing property, as computed by _parseWith
+    const schemaDefault = (propSchema: Schema<any>, ctx: CompileContext): unknown => {
+      try {
+        const result = propSchema.safeParse(undefined, {
+          ...ctx.options,
+          path: ctx.path.slice(),
+          defaults: true,
+          warnings: [],
+        });
+
+        return result.isOk() ? result.unwrap() : undefined;
+      } catch (e) {
+        return undefined;
+      }
+    };
+
+    return (data, ctx) => {
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return FAIL;
+      }
+
+      const value = data as Record<string, unknown>;
+      const result: Record<string, any> = {};
+      const useDefaults = ctx.options.defaults !== false;
+
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const key = entry.key;
+
+        ctx.path.push(key);
+
+        if (key in value) {
+          const parsed = entry.node(value[key], ctx);
+
+          if (parsed === FAIL) {
+            ctx.path.pop();
+            return FAIL;
+          }
+
+          result[key] = parsed;
+        } else if (useDefaults && key in defaults) {
+          result[key] = defaults[key];
+        } else if (useDefaults) {
+          const defaultValue = schemaDefault(entry.schema, ctx);
+
+          if (defaultValue !== undefined) {
+            result[key] = defaultValue;
+          } else if (entry.required) {
+            ctx.path.pop();
+            return FAIL;
+          }
+        } else if (entry.required) {
+          ctx.path.pop();
+          return FAIL;
+        }
+
+        ctx.path.pop();
+      }
+
+      if (catchall) {
+        for (const key of Object.keys(value)) {
+          if (!Object.prototype.hasOwnProperty.call(shape, key)) {
+            ctx.path.push(key);
+            const parsed = catchall(value[key], ctx);
+            ctx.path.pop();
 
-    return ok(result as T);
+            if (parsed === FAIL) {
+              return FAIL;
+            }
+
+            result[key] = parsed;
+          }
+        }
+      } else if (unknownKeys === 'strict') {
+        for (const key of Object.keys(value)) {
+          if (!Object.prototype.hasOwnProperty.call(shape, key)) {
+            return FAIL;
+          }
+        }
+      } else if (keepUnknown(ctx.options)) {
+        for (const key of Object.keys(value)) {
+          if (!Object.prototype.hasOwnProperty.call(shape, key)) {
+            result[key] = value[key];
+          }
+        }
+      }
+
+      return result;
+    };
   }
 }
 
 /**
- * Schema for optional objects
+ * Keys of the properties that must be present
+ * Properties whose schema is optional, possibly behind a wrapper such as
+ * `describe()`, `refine()` or `transform()`, may be missing.
  */
-class OptionalObjectSchema<T extends Record<string, any>> extends Schema<T | undefined> {
-  constructor(private readonly baseSchema: ObjectSchema<T>) {
-    super();
-  }
-  
-  /**
-   * Parse and validate object data
-   */
-  _parse(data: unknown, options: ValidationOptions): Result<T | undefined, ValidationError> {
-    if (data === undefined || data === null) {
-      return ok(undefined);
-    }
-    
-    return this.baseSchema._parse(data, options);
-  }
-  
-  /**
-   * Generate a partial schema
-   */
-  partial(): Schema<Partial<T> | undefined> {
-    // Return a partial schema that can also be undefined
-    return new OptionalObjectSchema(this.baseSchema.partial() as ObjectSchema<Partial<T>>);
-  }
+function requiredKeys(shape: Record<string, Schema<any>>): string[] {
+  return Object.keys(shape).filter(key => !shape[key].isOptional());
 }
 
 /**
  * Options for object schema
  */
-export interface ObjectSchemaOptions<T extends Record<string, any>> {
+export interface ObjectSchemaOptions<T extends Record<string, any>> extends SchemaMessageOptions {
   shape?: Record<string, Schema<any>>;
   required?: string[];
   defaults?: Partial<T> | Record<string, any>;
+  requiredMessages?: Record<string, CheckMessage>;
+
+  /**
+   * Unknown keys policy, the `stripUnknown` parse option applies when omitted
+   */
+  unknownKeys?: UnknownKeysPolicy;
+
+  /**
+   * Schema of the unknown properties
+   */
+  catchall?: Schema<any>;
 }
 
 /**
  * Create an object schema
  */
 export function object<S extends Record<string, Schema<any>>>(
-  shape: S
+  shape: S,
+  options: SchemaMessageOptions = {}
 ): ObjectSchema<InferObjectType<S>> {
   return new ObjectSchema({
+    ...options,
     shape,
-    required: Object.keys(shape),
+    required: requiredKeys(shape),
   });
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { Schema, ValidationOptions, ChildParser, parseChild } from '../core/schema';
+import { Result, err } from '../core/result';
+import { ValidationError, ValidationIssue } from '../core/errors';
+import { appendPath } from '../core/path';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Schema for Set validation
+ * Issues are reported at the index of the item in iteration order.
+ */
+export class SetSchema<T> extends Schema<Set<T>> {
+  private readonly _itemSchema: Schema<T>;
+  private readonly _minSize?: number;
+  private readonly _maxSize?: number;
+  private readonly _coerce: boolean;
+
+  constructor(itemSchema: Schema<T>, options: SetSchemaOptions = {}) {
+    super();
+    this._itemSchema = itemSchema;
+    this._minSize = options.minSize;
+    this._maxSize = options.maxSize;
+    this._coerce = options.coerce || false;
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Set minimum size validation
+   */
+  min(size: number, message?: CheckMessage): SetSchema<T> {
+    return new SetSchema(this._itemSchema, {
+      ...this._getOptions(),
+      minSize: size,
+      messages: this.withMessage('set.min_size', message),
+    });
+  }
+
+  /**
+   * Set maximum size validation
+   */
+  max(size: number, message?: CheckMessage): SetSchema<T> {
+    return new SetSchema(this._itemSchema, {
+      ...this._getOptions(),
+      maxSize: size,
+      messages: this.withMessage('set.max_size', message),
+    });
+  }
+
+  /**
+   * Set exact size validation
+   */
+  size(size: number, message?: CheckMessage): SetSchema<T> {
+    return this.min(size, message).max(size, message);
+  }
+
+  /**
+   * Also accept arrays, as produced by JSON
+   * Duplicate items are merged and the size is checked after merging.
+   */
+  coerce(): SetSchema<T> {
+    return new SetSchema(this._itemSchema, {
+      ...this._getOptions(),
+      coerce: true,
+    });
+  }
+
+  /**
+   * Generate a partial schema where items are partial
+   */
+  partial(): Schema<Set<Partial<T>>> {
+    return new SetSchema(this._itemSchema.partial() as Schema<Partial<T>>, this._getOptions());
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): SetSchemaOptions {
+    return {
+      minSize: this._minSize,
+      maxSize: this._maxSize,
+      coerce: this._coerce,
+      messages: this._messages,
+    };
+  }
+
+  /**
+   * Items of the data, or undefined if it is not an accepted set representation
+   */
+  private _items(data: unknown): unknown[] | undefined {
+    if (data instanceof Set) {
+      return Array.from(data);
+    }
+
+    return this._coerce && Array.isArray(data) ? Array.from(new Set(data)) : undefined;
+  }
+
+  /**
+   * Parse and validate set data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<Set<T>, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate set data asynchronously
+   * Items are validated concurrently, then assembled as in `_parse`
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<Set<T>, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+    const items = this._items(data);
+
+    if (items) {
+      await Promise.all(items.map(async (item, i) => {
+        settled.set(i.toString(), await this._itemSchema._parseAsync(item, {
+          ...options,
+          path: appendPath(path, i),
+        }));
+      }));
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the set size, delegating each item to `parse`
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<Set<T>, ValidationError> {
+    const path = options.path || [];
+    const items = this._items(data);
+
+    // Type check
+    if (!items) {
+      return err(this.invalidType('set', data, options));
+    }
+
+    const result = new Set<T>();
+    const issues: ValidationIssue[] = [];
+
+    // Size validations
+    if (this._minSize !== undefined && items.length < this._minSize) {
+      issues.push(this.localizedIssue(
+        'set.min_size',
+        options,
+        path,
+        { min: this._minSize, actual: items.length }
+      ));
+    }
+
+    if (this._maxSize !== undefined && items.length > this._maxSize) {
+      issues.push(this.localizedIssue(
+        'set.max_size',
+        options,
+        path,
+        { max: this._maxSize, actual: items.length }
+      ));
+    }
+
+    // Validate items
+    for (let i = 0; i < items.length; i++) {
+      const itemResult = parse(this._itemSchema, items[i], {
+        ...options,
+        path: appendPath(path, i),
+      }, i.toString());
+
+      if (itemResult.isOk()) {
+        result.add(itemResult.unwrap());
+      } else {
+        issues.push(...itemResult.unwrapErr().issues);
+
+        if (options.abortEarly) {
+          return err(this.validationError(issues));
+        }
+      }
+    }
+
+    return this.settle(result, issues, options);
+  }
+}
+
+/**
+ * Options for set schema
+ */
+export interface SetSchemaOptions extends SchemaMessageOptions {
+  minSize?: number;
+  maxSize?: number;
+  coerce?: boolean;
+}
+
+/**
+ * Create a set schema
+ */
+export function set<T>(itemSchema: Schema<T>, options: SetSchemaOptions = {}): SetSchema<T> {
+  return new SetSchema(itemSchema, options);
+}
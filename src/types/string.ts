@@ -1,17 +1,181 @@
 import { Schema, ValidationOptions } from '../core/schema';
 import { Result, ok, err } from '../core/result';
 import { ValidationError, ValidationIssue } from '../core/errors';
+import { coerceString } from '../core/coerce';
+import { Path } from '../core/path';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { getFormat } from '../core/formats';
+import { LengthUnit, NormalizationForm, stringLength } from '../core/unicode';
+import { CompiledNode, FAIL } from '../core/compile';
+
+const IPV4_PATTERN = /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const IPV6_GROUP_PATTERN = /^[0-9a-f]{1,4}$/i;
+const HOSTNAME_PATTERN = /^(?=.{1,253}\.?$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const BASE64URL_PATTERN = /^(?:[A-Za-z0-9_-]{4})*(?:[A-Za-z0-9_-]{2}(?:==)?|[A-Za-z0-9_-]{3}=?)?$/;
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Emoji_Component})+$/u;
+const PICTOGRAPH_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20e3/u;
+
+/**
+ * Validators of the formats that take no options
+ */
+const FORMAT_VALIDATORS: Partial<Record<StringFormat, (value: string) => boolean>> = {
+  // Basic email regex - in a real library we'd use a more robust solution
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  url: value => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  // UUID v4 regex
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isCalendarDate(value),
+  ipv4: value => IPV4_PATTERN.test(value),
+  ipv6: isIPv6,
+  cidr: isCidr,
+  hostname: value => HOSTNAME_PATTERN.test(value),
+  ulid: value => /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i.test(value),
+  // CUID2 of the default length (24) up to the maximum one (32)
+  cuid2: value => /^[a-z][0-9a-z]{23,31}$/.test(value),
+  nanoid: value => /^[A-Za-z0-9_-]{21}$/.test(value),
+  base64: value => BASE64_PATTERN.test(value),
+  base64url: value => BASE64URL_PATTERN.test(value),
+  jwt: isJwt,
+  emoji: value => EMOJI_PATTERN.test(value) && PICTOGRAPH_PATTERN.test(value),
+};
+
+/**
+ * Whether a format is built in rather than registered with `registerFormat`
+ */
+function isBuiltInFormat(format: string): format is StringFormat {
+  return format === 'datetime' || format === 'time' || Object.prototype.hasOwnProperty.call(FORMAT_VALIDATORS, format);
+}
+
+/**
+ * Whether the YYYY-MM-DD prefix of a string is an existing calendar day
+ */
+function isCalendarDate(value: string): boolean {
+  const day = value.slice(0, 10);
+  const parsed = new Date(`${day}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === day;
+}
+
+/**
+ * Pattern of the fractional seconds: any number of digits, none or exactly `precision`
+ */
+function fractionPattern(precision?: number): string {
+  if (precision === undefined) {
+    return '(?:\\.\\d+)?';
+  }
+
+  return precision === 0 ? '' : `\\.\\d{${precision}}`;
+}
+
+/**
+ * Pattern of an RFC 3339 time of day, without offset
+ */
+function timePattern(precision?: number): string {
+  return `(?:[01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d${fractionPattern(precision)}`;
+}
+
+/**
+ * Whether a string is an ISO 8601 date-time in UTC, or with an offset when allowed
+ */
+function isDatetime(value: string, precision?: number, offset?: boolean): boolean {
+  const zone = offset ? '(?:Z|[+-](?:[01]\\d|2[0-3]):[0-5]\\d)' : 'Z';
+  return new RegExp(`^\\d{4}-\\d{2}-\\d{2}T${timePattern(precision)}${zone}$`).test(value) && isCalendarDate(value);
+}
+
+/**
+ * Whether a string is an IPv6 address, compressed or with a trailing IPv4 part
+ */
+function isIPv6(value: string): boolean {
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const head = halves[0] === '' ? [] : halves[0].split(':');
+  const tail = halves.length === 2 && halves[1] !== '' ? halves[1].split(':') : [];
+  const last = halves.length === 2 ? tail : head;
+  let groups = head.length + tail.length;
+
+  // An embedded IPv4 address takes the room of two groups
+  if (last.length > 0 && last[last.length - 1].includes('.')) {
+    if (!IPV4_PATTERN.test(last.pop()!)) {
+      return false;
+    }
+    groups += 1;
+  }
+
+  if (![...head, ...tail].every(group => IPV6_GROUP_PATTERN.test(group))) {
+    return false;
+  }
+
+  return halves.length === 2 ? groups < 8 : groups === 8;
+}
+
+/**
+ * Whether a string is an IPv4 or IPv6 range in CIDR notation
+ */
+function isCidr(value: string): boolean {
+  const slash = value.lastIndexOf('/');
+  const prefix = value.slice(slash + 1);
+  if (slash === -1 || !/^\d{1,3}$/.test(prefix)) {
+    return false;
+  }
+
+  const address = value.slice(0, slash);
+  if (IPV4_PATTERN.test(address)) {
+    return Number(prefix) <= 32;
+  }
+
+  return isIPv6(address) && Number(prefix) <= 128;
+}
+
+/**
+ * Whether a string is a JSON Web Token: three base64url parts and a JSON header naming its algorithm
+ * The signature is not verified.
+ */
+function isJwt(value: string): boolean {
+  const parts = value.split('.');
+  if (parts.length !== 3 || parts[0] === '' || parts[1] === '' || !parts.every(part => BASE64URL_PATTERN.test(part))) {
+    return false;
+  }
+
+  try {
+    const header = JSON.parse(atob(parts[0].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof header === 'object' && header !== null && typeof header.alg === 'string';
+  } catch {
+    return false;
+  }
+}
 
 /**
  * Schema for string validation
+ * A string has a single format: each format method (`email()`, `uuid()`, `format()`...)
+ * replaces the previous one, so `.email().uuid()` only checks the UUID.
  */
 export class StringSchema extends Schema<string> {
   private readonly _minLength?: number;
   private readonly _maxLength?: number;
   private readonly _pattern?: RegExp;
-  private readonly _format?: StringFormat;
+  private readonly _length?: number;
+  private readonly _startsWith?: string;
+  private readonly _endsWith?: string;
+  private readonly _includes?: string;
+  private readonly _format?: string;
+  private readonly _precision?: number;
+  private readonly _offset: boolean = false;
+  private readonly _case?: StringCase;
+  private readonly _normalize?: NormalizationForm;
+  private readonly _lengthUnit: LengthUnit = 'code-unit';
   private readonly _trim: boolean = false;
   private readonly _optional: boolean = false;
+  private readonly _coerce: boolean = false;
   private readonly _default?: string;
   
   constructor(options: StringSchemaOptions = {}) {
@@ -19,39 +183,97 @@ export class StringSchema extends Schema<string> {
     this._minLength = options.minLength;
     this._maxLength = options.maxLength;
     this._pattern = options.pattern;
+    this._length = options.length;
+    this._startsWith = options.startsWith;
+    this._endsWith = options.endsWith;
+    this._includes = options.includes;
     this._format = options.format;
+    this._precision = options.precision;
+    this._offset = options.offset || false;
+    this._case = options.case;
+    this._normalize = options.normalize;
+    this._lengthUnit = options.lengthUnit || 'code-unit';
     this._trim = options.trim || false;
     this._optional = options.optional || false;
+    this._coerce = options.coerce || false;
     this._default = options.default;
+    this._messages = collectMessages(options);
   }
 
   /**
    * Set string pattern validation with regex
    */
-  regex(pattern: RegExp): StringSchema {
+  regex(pattern: RegExp, message?: CheckMessage): StringSchema {
     return new StringSchema({
       ...this._getOptions(),
       pattern,
+      messages: this.withMessage('string.pattern', message),
     });
   }
 
   /**
    * Set minimum length validation
    */
-  min(length: number): StringSchema {
+  min(length: number, message?: CheckMessage): StringSchema {
     return new StringSchema({
       ...this._getOptions(),
       minLength: length,
+      messages: this.withMessage('string.min', message),
     });
   }
   
   /**
    * Set maximum length validation
    */
-  max(length: number): StringSchema {
+  max(length: number, message?: CheckMessage): StringSchema {
     return new StringSchema({
       ...this._getOptions(),
       maxLength: length,
+      messages: this.withMessage('string.max_length', message),
+    });
+  }
+
+  /**
+   * Set exact length validation
+   */
+  length(length: number, message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      length,
+      messages: this.withMessage('string.length', message),
+    });
+  }
+
+  /**
+   * Validate string starts with a prefix
+   */
+  startsWith(prefix: string, message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      startsWith: prefix,
+      messages: this.withMessage('string.starts_with', message),
+    });
+  }
+
+  /**
+   * Validate string ends with a suffix
+   */
+  endsWith(suffix: string, message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      endsWith: suffix,
+      messages: this.withMessage('string.ends_with', message),
+    });
+  }
+
+  /**
+   * Validate string contains a substring
+   */
+  includes(substring: string, message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      includes: substring,
+      messages: this.withMessage('string.includes', message),
     });
   }
 
@@ -75,43 +297,241 @@ export class StringSchema extends Schema<string> {
     });
   }
 
+  /**
+   * Apply a Unicode normalization form before the checks
+   * NFC composes accents, NFKC also folds compatibility characters (`ﬁ`, full-width digits...).
+   */
+  normalize(form: NormalizationForm = 'NFC'): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      normalize: form,
+    });
+  }
+
+  /**
+   * Convert the string to lower case before the checks
+   */
+  lowercase(): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      case: 'lower',
+    });
+  }
+
+  /**
+   * Convert the string to upper case before the checks
+   */
+  uppercase(): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      case: 'upper',
+    });
+  }
+
   /**
    * Validate string is an email
    */
-  email(): StringSchema {
+  email(message?: CheckMessage): StringSchema {
     return new StringSchema({
       ...this._getOptions(),
       format: 'email',
+      messages: this.withMessage('string.email', message),
     });
   }
 
   /**
    * Validate string is a URL
    */
-  url(): StringSchema {
+  url(message?: CheckMessage): StringSchema {
     return new StringSchema({
       ...this._getOptions(),
       format: 'url',
+      messages: this.withMessage('string.url', message),
     });
   }
 
   /**
    * Validate string is a UUID
    */
-  uuid(): StringSchema {
+  uuid(message?: CheckMessage): StringSchema {
     return new StringSchema({
       ...this._getOptions(),
       format: 'uuid',
+      messages: this.withMessage('string.uuid', message),
     });
   }
 
   /**
-   * Set this string as optional
+   * Validate string has a built-in format, or one registered with `registerFormat`
+   * The format is looked up when parsing, so it may be registered afterwards.
    */
-  optional(): Schema<string | undefined> {
-    return new OptionalStringSchema(this);
+  format(name: StringFormat | (string & {}), message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: name,
+      messages: this.withMessage(isBuiltInFormat(name) ? `string.${name}` : 'string.invalid_format', message),
+    });
   }
-  
+
+  /**
+   * Validate string is an ISO 8601 date-time
+   * Only UTC (`Z`) is accepted unless `offset` is set, and `precision` fixes the
+   * number of fractional second digits.
+   */
+  datetime(options: DatetimeOptions = {}): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'datetime',
+      precision: options.precision,
+      offset: options.offset,
+      messages: this.withMessage('string.datetime', options.message),
+    });
+  }
+
+  /**
+   * Validate string is a time of day (HH:MM:SS with optional fractional seconds)
+   */
+  time(options: TimeOptions = {}): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'time',
+      precision: options.precision,
+      messages: this.withMessage('string.time', options.message),
+    });
+  }
+
+  /**
+   * Validate string is an ISO 8601 calendar date (YYYY-MM-DD)
+   */
+  date(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'date',
+      messages: this.withMessage('string.date', message),
+    });
+  }
+
+  /**
+   * Validate string is an IPv4 address
+   */
+  ipv4(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'ipv4',
+      messages: this.withMessage('string.ipv4', message),
+    });
+  }
+
+  /**
+   * Validate string is an IPv6 address
+   */
+  ipv6(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'ipv6',
+      messages: this.withMessage('string.ipv6', message),
+    });
+  }
+
+  /**
+   * Validate string is an IPv4 or IPv6 range in CIDR notation
+   */
+  cidr(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'cidr',
+      messages: this.withMessage('string.cidr', message),
+    });
+  }
+
+  /**
+   * Validate string is a DNS hostname
+   */
+  hostname(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'hostname',
+      messages: this.withMessage('string.hostname', message),
+    });
+  }
+
+  /**
+   * Validate string is a ULID
+   */
+  ulid(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'ulid',
+      messages: this.withMessage('string.ulid', message),
+    });
+  }
+
+  /**
+   * Validate string is a CUID2 of 24 to 32 characters
+   */
+  cuid2(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'cuid2',
+      messages: this.withMessage('string.cuid2', message),
+    });
+  }
+
+  /**
+   * Validate string is a Nano ID (21 URL-safe characters)
+   */
+  nanoid(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'nanoid',
+      messages: this.withMessage('string.nanoid', message),
+    });
+  }
+
+  /**
+   * Validate string is standard base64
+   */
+  base64(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'base64',
+      messages: this.withMessage('string.base64', message),
+    });
+  }
+
+  /**
+   * Validate string is URL-safe base64, padding optional
+   */
+  base64url(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'base64url',
+      messages: this.withMessage('string.base64url', message),
+    });
+  }
+
+  /**
+   * Validate string is a JSON Web Token (the signature is not verified)
+   */
+  jwt(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'jwt',
+      messages: this.withMessage('string.jwt', message),
+    });
+  }
+
+  /**
+   * Validate string only contains emoji
+   */
+  emoji(message?: CheckMessage): StringSchema {
+    return new StringSchema({
+      ...this._getOptions(),
+      format: 'emoji',
+      messages: this.withMessage('string.emoji', message),
+    });
+  }
+
   /**
    * Internal method to get current options
    */
@@ -120,9 +540,20 @@ export class StringSchema extends Schema<string> {
       minLength: this._minLength,
       maxLength: this._maxLength,
       pattern: this._pattern,
+      length: this._length,
+      startsWith: this._startsWith,
+      endsWith: this._endsWith,
+      includes: this._includes,
       format: this._format,
+      precision: this._precision,
+      offset: this._offset,
+      case: this._case,
+      normalize: this._normalize,
+      lengthUnit: this._lengthUnit,
       trim: this._trim,
       optional: this._optional,
+      coerce: this._coerce,
+      messages: this._messages,
     };
   }
 
@@ -130,6 +561,10 @@ export class StringSchema extends Schema<string> {
    * Parse and validate string data
    */
   _parse(data: unknown, options: ValidationOptions): Result<string, ValidationError> {
+    if (this._coerce || options.coerce) {
+      data = coerceString(data);
+    }
+
     const path = options.path || [];
 
     // Si la valeur est undefined et qu'il y a une valeur par défaut, utilisez-la
@@ -139,112 +574,223 @@ export class StringSchema extends Schema<string> {
   
     // Type check
     if (typeof data !== 'string') {
-      return err(ValidationError.typeMismatch('string', data, path));
-    }
-
-    let value = data;
-
-    // Appliquer le trim si demandé
-    if (this._trim) {
-      value = value.trim();
+      return err(this.invalidType('string', data, options));
     }
 
+    const value = this._transform(data);
     const issues = [];
+    const length = stringLength(value, this._lengthUnit);
 
     // Min length validation
-    if (this._minLength !== undefined && value.length < this._minLength) {
-      issues.push(this.issue(
-        `String must have at least ${this._minLength} character(s)`,
+    if (this._minLength !== undefined && length < this._minLength) {
+      issues.push(this.localizedIssue(
         'string.min',
+        options,
         path,
-        { min: this._minLength, actual: value.length }
+        { min: this._minLength, actual: length }
       ));
     }
 
     // Max length validation
-    if (this._maxLength !== undefined && value.length > this._maxLength) {
-      issues.push(this.issue(
-        `String must contain at most ${this._maxLength} character(s)`,
+    if (this._maxLength !== undefined && length > this._maxLength) {
+      issues.push(this.localizedIssue(
         'string.max_length',
+        options,
         path,
-        { maxLength: this._maxLength, actual: value.length }
+        { maxLength: this._maxLength, actual: length }
+      ));
+    }
+
+    // Exact length validation
+    if (this._length !== undefined && length !== this._length) {
+      issues.push(this.localizedIssue(
+        'string.length',
+        options,
+        path,
+        { length: this._length, actual: length }
       ));
     }
 
     // Pattern validation
     if (this._pattern !== undefined && !this._pattern.test(value)) {
-      issues.push(this.issue(
-        `String must match pattern: ${this._pattern}`,
+      issues.push(this.localizedIssue(
         'string.pattern',
+        options,
         path,
         { pattern: this._pattern.toString() }
       ));
     }
 
+    // Prefix, suffix and substring validation
+    if (this._startsWith !== undefined && !value.startsWith(this._startsWith)) {
+      issues.push(this.localizedIssue('string.starts_with', options, path, { prefix: this._startsWith }));
+    }
+
+    if (this._endsWith !== undefined && !value.endsWith(this._endsWith)) {
+      issues.push(this.localizedIssue('string.ends_with', options, path, { suffix: this._endsWith }));
+    }
+
+    if (this._includes !== undefined && !value.includes(this._includes)) {
+      issues.push(this.localizedIssue('string.includes', options, path, { substring: this._includes }));
+    }
+
     // Format validation
     if (this._format !== undefined) {
-      const formatIssue = this._validateFormat(value, this._format, path);
+      const formatIssue = this._validateFormat(value, this._format, path, options);
       if (formatIssue) {
         issues.push(formatIssue);
       }
     }
 
-    if (issues.length > 0) {
-      return err(this.validationError(issues));
+    return this.settle(value, issues, options);
+  }
+
+  /**
+   * Apply trim, Unicode normalization and case conversion, then the normalization
+   * of a registered format, looked up at each call
+   */
+  private _transform(data: string): string {
+    let value = data;
+
+    // Appliquer le trim si demandé
+    if (this._trim) {
+      value = value.trim();
+    }
+
+    if (this._normalize !== undefined) {
+      value = value.normalize(this._normalize);
+    }
+
+    if (this._case === 'lower') {
+      value = value.toLowerCase();
+    } else if (this._case === 'upper') {
+      value = value.toUpperCase();
+    }
+
+    // Registered formats may normalize the value before the checks
+    const customFormat = this._format !== undefined && !isBuiltInFormat(this._format)
+      ? getFormat(this._format)
+      : undefined;
+    if (customFormat && customFormat.normalize) {
+      value = customFormat.normalize(value);
     }
 
-    return ok(value);
+    return value;
   }
 
   /**
    * Validate string format (email, url, uuid, etc.)
+   * Each built-in format reports its own `string.<format>` issue, registered
+   * formats report `string.invalid_format`.
    */
-  private _validateFormat(value: string, format: StringFormat, path: string[]): ValidationIssue | null {
-    switch (format) {
-      case 'email':
-        // Basic email regex - in a real library we'd use a more robust solution
-        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
-          return this.issue(
-            'Invalid email address',
-            'string.email',
-            path
-          );
-        }
-        break;
-
-      case 'url':
-        try {
-          new URL(value);
-        } catch {
-          return this.issue(
-            'Invalid URL',
-            'string.url',
-            path
-          );
-        }
-        break;
-
-      case 'uuid':
-        // UUID v4 regex
-        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value)) {
-          return this.issue(
-            'Invalid UUID',
-            'string.uuid',
-            path
-          );
-        }
-        break;
-
-      default:
-        // Unknown format
-        return this.issue(
-          `Unsupported format: ${format}`,
-          'string.format',
-          path
-        );
+  private _validateFormat(
+    value: string,
+    format: string,
+    path: Path,
+    options: ValidationOptions
+  ): ValidationIssue | null {
+    if (isBuiltInFormat(format)) {
+      let valid: boolean;
+
+      if (format === 'datetime') {
+        valid = isDatetime(value, this._precision, this._offset);
+      } else if (format === 'time') {
+        valid = new RegExp(`^${timePattern(this._precision)}$`).test(value);
+      } else {
+        valid = FORMAT_VALIDATORS[format]!(value);
+      }
+
+      return valid ? null : this.localizedIssue(`string.${format}`, options, path);
+    }
+
+    const definition = getFormat(format);
+
+    if (!definition) {
+      // Unknown format
+      return this.localizedIssue(
+        'string.format',
+        options,
+        path,
+        { format }
+      );
+    }
+
+    return definition.validate(value)
+      ? null
+      : this.localizedIssue('string.invalid_format', options, path, { format });
+  }
+
+  /**
+   * Compiled validator, performing the checks of `_parse` without building issues
+   */
+  _compile(): CompiledNode | undefined {
+    // Coercing schemas convert their input first
+    if (this._coerce) {
+      return undefined;
+    }
+
+    const unit = this._lengthUnit;
+    const checks: Array<(value: string) => boolean> = [];
+
+    if (this._minLength !== undefined) {
+      const min = this._minLength;
+      checks.push(value => stringLength(value, unit) >= min);
+    }
+
+    if (this._maxLength !== undefined) {
+      const max = this._maxLength;
+      checks.push(value => stringLength(value, unit) <= max);
+    }
+
+    if (this._length !== undefined) {
+      const length = this._length;
+      checks.push(value => stringLength(value, unit) === length);
+    }
+
+    if (this._pattern !== undefined) {
+      const pattern = this._pattern;
+      checks.push(value => pattern.test(value));
+    }
+
+    if (this._startsWith !== undefined) {
+      const prefix = this._startsWith;
+      checks.push(value => value.startsWith(prefix));
+    }
+
+    if (this._endsWith !== undefined) {
+      const suffix = this._endsWith;
+      checks.push(value => value.endsWith(suffix));
+    }
+
+    if (this._includes !== undefined) {
+      const substring = this._includes;
+      checks.push(value => value.includes(substring));
     }
 
-    return null;
+    if (this._format !== undefined) {
+      const format = this._format;
+      checks.push(value => this._validateFormat(value, format, [], {}) === null);
+    }
+
+    return (data) => {
+      if (data === undefined && this._default !== undefined) {
+        return this._default;
+      }
+
+      if (typeof data !== 'string') {
+        return FAIL;
+      }
+
+      const value = this._transform(data);
+
+      for (let i = 0; i < checks.length; i++) {
+        if (!checks[i](value)) {
+          return FAIL;
+        }
+      }
+
+      return value;
+    };
   }
 
   /**
@@ -256,50 +802,82 @@ export class StringSchema extends Schema<string> {
   }
 }
 
+/**
+ * String format types
+ */
+export type StringFormat =
+  | 'email' | 'url' | 'uuid' | 'date' | 'time' | 'datetime'
+  | 'ipv4' | 'ipv6' | 'cidr' | 'hostname'
+  | 'ulid' | 'cuid2' | 'nanoid'
+  | 'base64' | 'base64url' | 'jwt' | 'emoji';
 
 /**
- * Schema for optional string
+ * Case normalization applied before the checks
  */
-class OptionalStringSchema extends Schema<string | undefined> {
-  constructor(private readonly baseSchema: StringSchema) {
-    super();
-  }
-  
-  /**
-   * Parse and validate string data
-   */
-  _parse(data: unknown, options: ValidationOptions): Result<string | undefined, ValidationError> {
-    if (data === undefined || data === null) {
-      return ok(undefined);
-    }
-    
-    return this.baseSchema._parse(data, options);
-  }
-  
+export type StringCase = 'lower' | 'upper';
+
+/**
+ * Options of `time()`
+ */
+export interface TimeOptions {
   /**
-   * Generate a partial schema
+   * Exact number of fractional second digits, any number when omitted
    */
-  partial(): Schema<string | undefined> {
-    return this;
-  }
+  precision?: number;
+  message?: CheckMessage;
 }
 
 /**
- * String format types
+ * Options of `datetime()`
  */
-export type StringFormat = 'email' | 'url' | 'uuid' | 'date' | 'time' | 'datetime';
+export interface DatetimeOptions extends TimeOptions {
+  /**
+   * Accept `+hh:mm` offsets besides `Z`
+   */
+  offset?: boolean;
+}
 
 /**
  * Options for string schema
  */
-export interface StringSchemaOptions {
+export interface StringSchemaOptions extends SchemaMessageOptions {
   minLength?: number;
   maxLength?: number;
   pattern?: RegExp;
-  format?: StringFormat;
+  length?: number;
+  startsWith?: string;
+  endsWith?: string;
+  includes?: string;
+
+  /**
+   * Built-in format, or name of a format registered with `registerFormat`
+   */
+  format?: StringFormat | (string & {});
+
+  /**
+   * Fractional second digits of the `datetime` and `time` formats
+   */
+  precision?: number;
+
+  /**
+   * Whether the `datetime` format accepts offsets
+   */
+  offset?: boolean;
+  case?: StringCase;
+  normalize?: NormalizationForm;
+
+  /**
+   * Unit of `min`, `max` and `length`, UTF-16 code units by default
+   */
+  lengthUnit?: LengthUnit;
   trim?: boolean;
   optional?: boolean;
   default?: string;
+
+  /**
+   * Convert the input before validation (see `s.coerce`)
+   */
+  coerce?: boolean;
 }
 
 /**
@@ -0,0 +1,41 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok, err } from '../core/result';
+import { ValidationError } from '../core/errors';
+import { SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Schema for symbol validation
+ */
+export class SymbolSchema extends Schema<symbol> {
+  constructor(options: SchemaMessageOptions = {}) {
+    super();
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Parse and validate symbol data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<symbol, ValidationError> {
+    // Type check
+    if (typeof data !== 'symbol') {
+      return err(this.invalidType('symbol', data, options));
+    }
+
+    return ok(data);
+  }
+
+  /**
+   * Generate a partial schema
+   * For primitives like symbol, partial means the value is now optional
+   */
+  partial(): Schema<symbol | undefined> {
+    return this.optional();
+  }
+}
+
+/**
+ * Create a symbol schema
+ */
+export function symbol(options: SchemaMessageOptions = {}): SymbolSchema {
+  return new SymbolSchema(options);
+}
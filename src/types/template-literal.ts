@@ -0,0 +1,175 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok, err } from '../core/result';
+import { ValidationError } from '../core/errors';
+import { CheckMessage, SchemaMessageOptions, collectMessages } from '../core/messages';
+import { StringSchema } from './string';
+import { NumberSchema } from './number';
+import { BooleanSchema } from './boolean';
+import { BigIntSchema } from './bigint';
+import { NullSchema } from './null';
+import { UndefinedSchema } from './undefined';
+import { EnumSchema } from './enum';
+import { LiteralSchema } from './literal';
+
+/**
+ * Values that can be interpolated in a template literal
+ */
+type TemplateValue = string | number | boolean | bigint | null | undefined;
+
+/**
+ * Part of a template literal: a fixed value or a schema of the interpolated value
+ */
+export type TemplateLiteralPart = TemplateValue | Schema<TemplateValue>;
+
+/**
+ * String type described by template literal parts
+ * `['user_', s.number()]` is `` `user_${number}` ``
+ */
+export type InferTemplateLiteral<P extends readonly TemplateLiteralPart[]> =
+  P extends readonly [infer Head, ...infer Tail extends readonly TemplateLiteralPart[]]
+    ? `${Head extends Schema<infer V extends TemplateValue> ? V : Head & TemplateValue}${InferTemplateLiteral<Tail>}`
+    : '';
+
+/**
+ * Compiled part: the pattern matching it and how to check the matched text
+ */
+interface TemplateSegment {
+  pattern: string;
+  label: string;
+  check?: (text: string, options: ValidationOptions) => boolean;
+}
+
+/**
+ * Schema for strings built from fixed parts and interpolated values
+ */
+export class TemplateLiteralSchema<T extends string> extends Schema<T> {
+  private readonly _segments: TemplateSegment[];
+  private readonly _regex: RegExp;
+  private readonly _template: string;
+
+  constructor(private readonly _parts: readonly TemplateLiteralPart[], options: TemplateLiteralSchemaOptions = {}) {
+    super();
+    this._segments = _parts.map(toSegment);
+    this._regex = new RegExp(`^${this._segments.map(segment => `(${segment.pattern})`).join('')}$`);
+    this._template = this._segments.map(segment => segment.label).join('');
+    this._messages = collectMessages({
+      ...options,
+      messages: options.message !== undefined
+        ? { ...options.messages, 'template_literal.invalid': options.message }
+        : options.messages,
+    });
+  }
+
+  /**
+   * Regular expression matching the template
+   */
+  get pattern(): RegExp {
+    return this._regex;
+  }
+
+  /**
+   * Parse and validate template literal data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    const path = options.path || [];
+
+    // Type check
+    if (typeof data !== 'string') {
+      return err(this.invalidType('string', data, options));
+    }
+
+    const match = this._regex.exec(data);
+    const valid = match !== null && this._segments.every((segment, i) =>
+      !segment.check || segment.check(match[i + 1], options)
+    );
+
+    if (!valid) {
+      return err(
+        new ValidationError([
+          this.localizedIssue(
+            'template_literal.invalid',
+            options,
+            path,
+            { template: this._template, pattern: this._regex.source }
+          ),
+        ])
+      );
+    }
+
+    return ok(data as T);
+  }
+
+  /**
+   * Generate a partial schema
+   * For template literals, partial is the same as the original
+   */
+  partial(): Schema<T> {
+    return this;
+  }
+}
+
+/**
+ * Escape a fixed value for use in a pattern
+ */
+function escapePattern(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check an interpolated text with the schema of its part
+ */
+function checkWith(schema: Schema<any>, convert: (text: string) => unknown) {
+  return (text: string, options: ValidationOptions): boolean =>
+    schema._parse(convert(text), { ...options, warnings: [] }).isOk();
+}
+
+/**
+ * Compile a template literal part
+ * Interpolated values must match the pattern of their type, then their schema.
+ */
+function toSegment(part: TemplateLiteralPart): TemplateSegment {
+  if (!(part instanceof Schema)) {
+    return { pattern: escapePattern(String(part)), label: String(part) };
+  }
+
+  if (part instanceof LiteralSchema || part instanceof NullSchema || part instanceof UndefinedSchema) {
+    const value = part instanceof LiteralSchema ? String(part.value) : part instanceof NullSchema ? 'null' : 'undefined';
+    return { pattern: escapePattern(value), label: value };
+  } else if (part instanceof EnumSchema) {
+    const values = ((part as any).values as TemplateValue[]).map(String);
+    return { pattern: values.map(escapePattern).join('|'), label: `\${${values.join(' | ')}}` };
+  } else if (part instanceof StringSchema) {
+    return { pattern: '[\\s\\S]*', label: '${string}', check: checkWith(part, text => text) };
+  } else if (part instanceof NumberSchema) {
+    const pattern = (part as any)._integer
+      ? '-?\\d+'
+      : '-?(?:\\d+(?:\\.\\d*)?|\\.\\d+)(?:[eE][+-]?\\d+)?';
+    return { pattern, label: '${number}', check: checkWith(part, Number) };
+  } else if (part instanceof BigIntSchema) {
+    return { pattern: '-?\\d+', label: '${bigint}', check: checkWith(part, BigInt) };
+  } else if (part instanceof BooleanSchema) {
+    return { pattern: 'true|false', label: '${boolean}', check: checkWith(part, text => text === 'true') };
+  }
+
+  throw new Error(`Unsupported template literal part: ${part.constructor.name}`);
+}
+
+/**
+ * Options for template literal schema
+ */
+export interface TemplateLiteralSchemaOptions extends SchemaMessageOptions {
+  /**
+   * Message used when the string does not match the template
+   */
+  message?: CheckMessage;
+}
+
+/**
+ * Create a template literal schema
+ */
+export function templateLiteral<P extends readonly TemplateLiteralPart[]>(
+  parts: [...P],
+  options: TemplateLiteralSchemaOptions = {}
+): TemplateLiteralSchema<InferTemplateLiteral<P>> {
+  return new TemplateLiteralSchema(parts, options);
+}
@@ -0,0 +1,181 @@
+import { Schema, ValidationOptions, ChildParser, InferType, parseChild } from '../core/schema';
+import { Result, err } from '../core/result';
+import { ValidationError, ValidationIssue } from '../core/errors';
+import { appendPath } from '../core/path';
+import { SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Tuple type of item schemas
+ * Trailing items that accept `undefined` are optional elements.
+ */
+export type InferTupleType<S extends readonly Schema<any>[]> =
+  S extends readonly [...infer Init extends Schema<any>[], infer Last extends Schema<any>]
+    ? undefined extends InferType<Last>
+      ? [...InferTupleType<Init>, InferType<Last>?]
+      : [...InferRequiredItems<Init>, InferType<Last>]
+    : [];
+
+/**
+ * Tuple type of item schemas, all elements required
+ */
+type InferRequiredItems<S extends readonly Schema<any>[]> = {
+  [K in keyof S]: InferType<S[K]>;
+};
+
+/**
+ * Schema for fixed-position arrays
+ */
+export class TupleSchema<T extends any[]> extends Schema<T> {
+  private readonly _items: Schema<any>[];
+  private readonly _rest?: Schema<any>;
+
+  constructor(items: Schema<any>[], options: TupleSchemaOptions = {}) {
+    super();
+    this._items = items;
+    this._rest = options.rest;
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Schemas of the fixed items
+   */
+  get items(): readonly Schema<any>[] {
+    return this._items;
+  }
+
+  /**
+   * Validate the items after the fixed ones against `schema`
+   */
+  rest<R>(schema: Schema<R>): TupleSchema<[...T, ...R[]]> {
+    return new TupleSchema<[...T, ...R[]]>(this._items, {
+      ...this._getOptions(),
+      rest: schema,
+    });
+  }
+
+  /**
+   * Generate a partial schema where every item is partial
+   */
+  partial(): Schema<Partial<T>> {
+    return new TupleSchema<any>(this._items.map(item => item.partial()), {
+      ...this._getOptions(),
+      rest: this._rest && this._rest.partial(),
+    });
+  }
+
+  /**
+   * Internal method to get current options
+   */
+  private _getOptions(): TupleSchemaOptions {
+    return {
+      rest: this._rest,
+      messages: this._messages,
+    };
+  }
+
+  /**
+   * Parse and validate tuple data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<T, ValidationError> {
+    return this._parseWith(data, options, parseChild);
+  }
+
+  /**
+   * Parse and validate tuple data asynchronously
+   * Items are validated concurrently, then assembled as in `_parse`
+   */
+  async _parseAsync(data: unknown, options: ValidationOptions): Promise<Result<T, ValidationError>> {
+    const path = options.path || [];
+    const settled = new Map<string, Result<any, ValidationError>>();
+
+    if (Array.isArray(data)) {
+      const length = this._rest ? Math.max(data.length, this._items.length) : this._items.length;
+
+      await Promise.all(Array.from({ length }, async (_, i) => {
+        const schema = i < this._items.length ? this._items[i] : this._rest!;
+
+        settled.set(i.toString(), await schema._parseAsync(data[i], {
+          ...options,
+          path: appendPath(path, i),
+        }));
+      }));
+    }
+
+    return this._parseWith(data, options, (_schema, _data, _options, key) => settled.get(key)!);
+  }
+
+  /**
+   * Validate the tuple length, delegating each item to `parse`
+   * Missing items are parsed as `undefined`, so optional trailing items pass
+   * and required ones are reported at their own index.
+   */
+  private _parseWith(data: unknown, options: ValidationOptions, parse: ChildParser): Result<T, ValidationError> {
+    const path = options.path || [];
+
+    // Type check
+    if (!Array.isArray(data)) {
+      return err(this.invalidType('array', data, options));
+    }
+
+    const result: any[] = [];
+    const issues: ValidationIssue[] = [];
+    let length = data.length;
+
+    // Too many items without a rest schema
+    if (!this._rest && data.length > this._items.length) {
+      issues.push(this.localizedIssue(
+        'tuple.max_length',
+        options,
+        path,
+        { max: this._items.length, actual: data.length }
+      ));
+    }
+
+    const count = this._rest ? Math.max(data.length, this._items.length) : this._items.length;
+
+    for (let i = 0; i < count; i++) {
+      const schema = i < this._items.length ? this._items[i] : this._rest!;
+      const itemResult = parse(schema, data[i], {
+        ...options,
+        path: appendPath(path, i),
+      }, i.toString());
+
+      if (itemResult.isOk()) {
+        const value = itemResult.unwrap();
+        result[i] = value;
+
+        // Missing items are only added when they get a default value
+        if (i >= data.length && value !== undefined) {
+          length = i + 1;
+        }
+      } else {
+        issues.push(...itemResult.unwrapErr().issues);
+
+        if (options.abortEarly) {
+          return err(this.validationError(issues));
+        }
+      }
+    }
+
+    result.length = length;
+
+    return this.settle(result as T, issues, options);
+  }
+}
+
+/**
+ * Options for tuple schema
+ */
+export interface TupleSchemaOptions extends SchemaMessageOptions {
+  rest?: Schema<any>;
+}
+
+/**
+ * Create a tuple schema
+ */
+export function tuple<S extends readonly Schema<any>[]>(
+  items: [...S],
+  options: SchemaMessageOptions = {}
+): TupleSchema<InferTupleType<S>> {
+  return new TupleSchema(items, options);
+}
@@ -0,0 +1,93 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok, err } from '../core/result';
+import { ValidationError } from '../core/errors';
+import { SchemaMessageOptions, collectMessages } from '../core/messages';
+
+/**
+ * Schema for undefined validation
+ */
+export class UndefinedSchema extends Schema<undefined> {
+  constructor(options: SchemaMessageOptions = {}) {
+    super();
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Parse and validate undefined data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<undefined, ValidationError> {
+    // Type check
+    if (data !== undefined) {
+      return err(this.invalidType('undefined', data, options));
+    }
+
+    return ok(undefined);
+  }
+
+  /**
+   * Properties with this schema may be missing, as they can only be undefined
+   */
+  isOptional(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate a partial schema
+   * For undefined, partial is the same
+   */
+  partial(): Schema<undefined> {
+    return this;
+  }
+}
+
+/**
+ * Schema for void validation, typically the result of a function
+ * Accepts undefined only, like UndefinedSchema, but is typed as `void`.
+ */
+export class VoidSchema extends Schema<void> {
+  constructor(options: SchemaMessageOptions = {}) {
+    super();
+    this._messages = collectMessages(options);
+  }
+
+  /**
+   * Parse and validate void data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<void, ValidationError> {
+    // Type check
+    if (data !== undefined) {
+      return err(this.invalidType('void', data, options));
+    }
+
+    return ok(undefined);
+  }
+
+  /**
+   * Properties with this schema may be missing, as they can only be undefined
+   */
+  isOptional(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate a partial schema
+   * For void, partial is the same
+   */
+  partial(): Schema<void> {
+    return this;
+  }
+}
+
+/**
+ * Create an undefined schema
+ */
+export function undefinedSchema(options: SchemaMessageOptions = {}): UndefinedSchema {
+  return new UndefinedSchema(options);
+}
+
+/**
+ * Create a void schema
+ */
+export function voidSchema(options: SchemaMessageOptions = {}): VoidSchema {
+  return new VoidSchema(options);
+}
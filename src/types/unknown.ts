@@ -0,0 +1,39 @@
+import { Schema, ValidationOptions } from '../core/schema';
+import { Result, ok } from '../core/result';
+import { ValidationError } from '../core/errors';
+
+/**
+ * Schema for unknown values
+ * Accepts anything like AnySchema, but the inferred type must be narrowed before use.
+ */
+export class UnknownSchema extends Schema<unknown> {
+  /**
+   * Parse unknown data
+   */
+  _parse(data: unknown, options: ValidationOptions): Result<unknown, ValidationError> {
+    // No validation, accept any value
+    return ok(data);
+  }
+
+  /**
+   * Properties with this schema may be missing, as their type includes undefined
+   */
+  isOptional(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate a partial schema
+   * For unknown, partial is the same
+   */
+  partial(): Schema<unknown> {
+    return this;
+  }
+}
+
+/**
+ * Create an unknown schema
+ */
+export function unknown(): UnknownSchema {
+  return new UnknownSchema();
+}
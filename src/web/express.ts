@@ -1,5 +1,6 @@
 import { Schema } from '../core/schema';
 import { ValidationError } from '../core/errors';
+import { PROBLEM_JSON_CONTENT_TYPE, toProblemDetails } from './problem-details';
 
 /**
  * Express request location
@@ -24,25 +25,31 @@ export interface ExpressValidationOptions {
    * Validation context
    */
   context?: any;
+  
+  /**
+   * Whether to coerce `query`, `params` and `headers` values, which are always strings
+   * The body and cookies are validated as is.
+   */
+  coerce?: boolean;
 }
 
+/**
+ * Request locations coerced by the `coerce` option
+ */
+const COERCED_LOCATIONS: RequestLocation[] = ['query', 'params', 'headers'];
+
 /**
  * Default Express error handler
+ * Responds with RFC 7807 problem details
  */
 function defaultExpressErrorHandler(
   err: ValidationError, 
-  _req: any, 
+  req: any, 
   res: any, 
   _next: any
 ): void {
-  res.status(400).json({
-    error: 'Validation Error',
-    issues: err.issues.map(issue => ({
-      path: issue.path.join('.'),
-      message: issue.message,
-      code: issue.code,
-    })),
-  });
+  res.setHeader('Content-Type', PROBLEM_JSON_CONTENT_TYPE);
+  res.status(400).json(toProblemDetails(err, { instance: req.originalUrl }));
 }
 
 /**
@@ -56,6 +63,7 @@ export function createExpressValidator<T>(
   // Default options
   const errorHandler = options.errorHandler || defaultExpressErrorHandler;
   const continueOnError = options.continueOnError || false;
+  const coerce = options.coerce === true && COERCED_LOCATIONS.includes(location);
   
   // Return middleware
   return function(req: any, res: any, next: any) {
@@ -70,6 +78,7 @@ export function createExpressValidator<T>(
       // Validate data
       const validatedData = schema.parse(data, { 
         context: options.context,
+        coerce,
       });
       
       // Replace original data with validated data
@@ -1,5 +1,6 @@
 import { Schema } from '../core/schema';
 import { ValidationError } from '../core/errors';
+import { PROBLEM_JSON_CONTENT_TYPE, toProblemDetails } from './problem-details';
 
 /**
  * Options for Fastify validation
@@ -221,20 +222,17 @@ export function createFastifyPlugin(options: {
 
 /**
  * Default Fastify error handler
+ * Responds with RFC 7807 problem details
  */
 function defaultFastifyErrorHandler(
   error: ValidationError,
-  _request: any,
+  request: any,
   reply: any
 ): void {
-  reply.status(400).send({
-    error: 'Validation Error',
-    issues: error.issues.map(issue => ({
-      path: issue.path.join('.'),
-      message: issue.message,
-      code: issue.code,
-    })),
-  });
+  reply
+    .status(400)
+    .header('Content-Type', PROBLEM_JSON_CONTENT_TYPE)
+    .send(toProblemDetails(error, { instance: request.url }));
 }
 
 /**
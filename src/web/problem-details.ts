@@ -0,0 +1,166 @@
+import { IssueSeverity, ValidationError } from '../core/errors';
+import { PathSegment } from '../core/path';
+
+/**
+ * Media type of problem details responses
+ */
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Invalid field reported in a problem details response
+ */
+export interface ProblemDetailsIssue {
+  /**
+   * JSON Pointer (RFC 6901) to the invalid value
+   */
+  pointer: string;
+
+  /**
+   * Dotted path to the invalid value
+   */
+  path: string;
+
+  message: string;
+  code: string;
+  params?: Record<string, any>;
+  severity?: IssueSeverity;
+}
+
+/**
+ * RFC 7807 problem details, with the validation issues as an extension member
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors: ProblemDetailsIssue[];
+  [extension: string]: any;
+}
+
+/**
+ * Options for problem details serialization
+ */
+export interface ProblemDetailsOptions {
+  /**
+   * URI identifying the problem type (defaults to `about:blank`)
+   */
+  type?: string;
+
+  /**
+   * Short summary of the problem type
+   */
+  title?: string;
+
+  /**
+   * HTTP status code (defaults to 400)
+   */
+  status?: number;
+
+  /**
+   * Explanation of this occurrence (defaults to the error message)
+   */
+  detail?: string;
+
+  /**
+   * URI of this occurrence, usually the request URL
+   */
+  instance?: string;
+
+  /**
+   * Issue params exposed besides the built-in safe ones, e.g. keys of custom check params
+   */
+  paramKeys?: string[];
+}
+
+/**
+ * Issue params describing the schema rather than the input, safe to send back
+ * Params such as `value` hold the raw input, which may be a password or a token.
+ */
+const SAFE_PARAM_KEYS = [
+  'expected', 'min', 'max', 'gt', 'lt', 'maxLength', 'length', 'actual', 'multipleOf',
+  'precision', 'scale', 'format', 'pattern', 'prefix', 'suffix', 'substring',
+  'duplicates', 'keys', 'discriminator', 'field', 'template', 'timeout',
+];
+
+/**
+ * Serialize a validation error as RFC 7807 problem details
+ */
+export function toProblemDetails(
+  error: ValidationError,
+  options: ProblemDetailsOptions = {}
+): ProblemDetails {
+  const problem: ProblemDetails = {
+    type: options.type || 'about:blank',
+    title: options.title || 'Bad Request',
+    status: options.status || 400,
+    detail: options.detail !== undefined ? options.detail : error.message,
+    errors: error.issues.map(issue => {
+      const params = safeParams(issue.code, issue.params, options.paramKeys || []);
+
+      return {
+        pointer: toJsonPointer(issue.path),
+        path: issue.path.join('.'),
+        message: issue.message,
+        code: issue.code,
+        ...(params !== undefined ? { params } : {}),
+        ...(issue.severity !== undefined ? { severity: issue.severity } : {}),
+      };
+    }),
+  };
+
+  if (options.instance !== undefined) {
+    problem.instance = options.instance;
+  }
+
+  return problem;
+}
+
+/**
+ * Keep the params that do not echo the input, with bigints as strings for JSON
+ * `received` is only a type name in `invalid_type` issues, elsewhere it is the input.
+ */
+function safeParams(
+  code: string,
+  params: Record<string, any> | undefined,
+  extraKeys: string[]
+): Record<string, any> | undefined {
+  if (params === undefined) {
+    return undefined;
+  }
+
+  const safe: Record<string, any> = {};
+
+  for (const key of Object.keys(params)) {
+    const exposed = SAFE_PARAM_KEYS.includes(key) ||
+      extraKeys.includes(key) ||
+      (key === 'received' && code === 'invalid_type');
+
+    if (exposed) {
+      safe[key] = toJsonValue(params[key]);
+    }
+  }
+
+  return Object.keys(safe).length > 0 ? safe : undefined;
+}
+
+/**
+ * Replace bigints, which JSON.stringify rejects, with their decimal strings
+ */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return Array.isArray(value) ? value.map(toJsonValue) : value;
+}
+
+/**
+ * Convert a validation path to a JSON Pointer
+ */
+function toJsonPointer(path: PathSegment[]): string {
+  return path
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}